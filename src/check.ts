@@ -0,0 +1,52 @@
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import path from "path";
+import { createUnifiedDiff } from "./diff.js";
+import {
+  findStaleOutputFiles,
+  generateEntityValidatorFiles,
+  readEntities,
+  resolveOrmConfigEntities,
+  type GenerateEntityValidatorOptions,
+} from "./generate.js";
+
+export type CheckEntityValidatorResult = {
+  /** The output file (or directory) which was compared with the generated code */
+  outputFile: string;
+  /** Whether the output files contain the generated code */
+  upToDate: boolean;
+  /** The unified diff from the output files to the generated code, empty when up to date */
+  diff: string;
+};
+
+/**
+ * Check that the output file (or the modules of the output directory) is up to date with the Mikro-ORM entities,
+ * without writing it. A missing output file is compared as an empty file, and the modules of the output directory
+ * which are not generated anymore (e.g. of a deleted entity) are compared as removed files.
+ * @param opts - The options for the validator.
+ * @returns Whether the output file is up to date, and the diff to the generated code.
+ */
+export async function checkEntityValidator(
+  opts: GenerateEntityValidatorOptions,
+): Promise<CheckEntityValidatorResult> {
+  const entitiesOpts = await resolveOrmConfigEntities(opts);
+  const outputFiles = await generateEntityValidatorFiles(await readEntities(entitiesOpts), entitiesOpts);
+
+  const diffs: string[] = [];
+  for (const [outputFile, generatedCode] of outputFiles) {
+    const existingCode = existsSync(outputFile) ? await readFile(outputFile, "utf-8") : "";
+    const fileName = path.relative(process.cwd(), path.resolve(outputFile));
+    const diff = createUnifiedDiff(existingCode, generatedCode, `a/${fileName}`, `b/${fileName}`);
+    if (diff !== "") {
+      diffs.push(diff);
+    }
+  }
+  for (const staleFile of await findStaleOutputFiles(entitiesOpts.outputDir, outputFiles)) {
+    const fileName = path.relative(process.cwd(), path.resolve(staleFile));
+    diffs.push(createUnifiedDiff(await readFile(staleFile, "utf-8"), "", `a/${fileName}`, "/dev/null"));
+  }
+
+  const outputFile = opts.outputDir ?? opts.outputFile ?? "./src/entity-validators.ts";
+  const diff = diffs.join("");
+  return { outputFile, upToDate: diff === "", diff };
+}
@@ -0,0 +1,283 @@
+import path from "path";
+import * as ts from "typescript";
+import { isEntityOrEmbeddable } from "./decorators.js";
+
+/**
+ * A property type resolved by the TypeScript type checker
+ */
+export interface ResolvedPropertyType {
+  /** The property declaration, which might be in a base class */
+  declaration: ts.PropertyDeclaration;
+  /** The resolved type, with the interfaces, type aliases and classes declared in the project inlined */
+  type: ts.TypeNode;
+  /** Whether the property is optional */
+  optional: boolean;
+  /** Whether the property is declared in a base class */
+  inherited: boolean;
+  /**
+   * Whether the type annotation references interfaces, type aliases or classes declared in the project,
+   * so the resolved type (in which they are inlined) should replace the type annotation
+   */
+  inlined: boolean;
+}
+
+/**
+ * Resolved property types of each entity, by entity name and property name
+ */
+export type ResolvedPropertyTypes = Map<string, Map<string, ResolvedPropertyType>>;
+
+/**
+ * The compiler options used when the entities directory has no tsconfig
+ */
+export const defaultCompilerOptions: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ESNext,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  strict: true,
+  experimentalDecorators: true,
+  skipLibCheck: true,
+};
+
+/**
+ * The maximum depth of inlined types, to stop at recursive types
+ */
+const maxInlineDepth = 5;
+
+/**
+ * Load the compiler options from the tsconfig of a directory (or its closest parent directory)
+ */
+export function loadCompilerOptions(dir: string): ts.CompilerOptions {
+  const configPath = ts.findConfigFile(dir, ts.sys.fileExists, "tsconfig.json");
+  if (!configPath) {
+    return defaultCompilerOptions;
+  }
+
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (error) {
+    throw new Error(
+      `Failed to read ${configPath}: ${ts.flattenDiagnosticMessageText(error.messageText, "\n")}`,
+    );
+  }
+  const parsedConfig = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath));
+  return { ...parsedConfig.options, noEmit: true };
+}
+
+/**
+ * Resolve the property types of the entities and embeddables with the TypeScript type checker.
+ * The files are served from the given map, and their imports are read from the disk.
+ */
+export function resolvePropertyTypes(
+  files: Map<string, string>,
+  compilerOptions: ts.CompilerOptions = defaultCompilerOptions,
+): ResolvedPropertyTypes {
+  const contents = new Map(
+    Array.from(files, ([filePath, content]) => [path.resolve(filePath), content]),
+  );
+
+  const host = ts.createCompilerHost(compilerOptions, true);
+  const getSourceFile = host.getSourceFile;
+  host.getSourceFile = (fileName, languageVersion, ...rest) => {
+    const content = contents.get(path.resolve(fileName));
+    return content !== undefined
+      ? ts.createSourceFile(fileName, content, languageVersion, true)
+      : getSourceFile.call(host, fileName, languageVersion, ...rest);
+  };
+  host.fileExists = (fileName) => contents.has(path.resolve(fileName)) || ts.sys.fileExists(fileName);
+  host.readFile = (fileName) => contents.get(path.resolve(fileName)) ?? ts.sys.readFile(fileName);
+
+  const program = ts.createProgram(Array.from(contents.keys()), compilerOptions, host);
+  const checker = program.getTypeChecker();
+
+  // Collect the entity and embeddable classes of all files
+  const entityClasses: ts.ClassDeclaration[] = [];
+  const collectEntityClasses = (node: ts.Node) => {
+    if (ts.isClassDeclaration(node) && node.name && isEntityOrEmbeddable(node)) {
+      entityClasses.push(node);
+    }
+    ts.forEachChild(node, collectEntityClasses);
+  };
+  for (const fileName of contents.keys()) {
+    const sourceFile = program.getSourceFile(fileName);
+    if (sourceFile) {
+      collectEntityClasses(sourceFile);
+    }
+  }
+
+  const entityNames = new Set(entityClasses.map((node) => node.name!.text));
+
+  const resolvedPropertyTypes: ResolvedPropertyTypes = new Map();
+  for (const node of entityClasses) {
+    const classSymbol = checker.getSymbolAtLocation(node.name!);
+    if (!classSymbol) {
+      continue;
+    }
+    const instanceType = checker.getDeclaredTypeOfSymbol(classSymbol);
+
+    const properties = new Map<string, ResolvedPropertyType>();
+    for (const property of checker.getPropertiesOfType(instanceType)) {
+      const declaration = property.valueDeclaration;
+      if (!declaration || !ts.isPropertyDeclaration(declaration)) {
+        continue;
+      }
+
+      const optional = (property.flags & ts.SymbolFlags.Optional) !== 0;
+      const propertyType = checker.getTypeOfSymbolAtLocation(property, node);
+
+      // Leave unresolved types (e.g. from missing dependencies) to the syntactic inference
+      if (propertyType.flags & ts.TypeFlags.Any) {
+        continue;
+      }
+
+      const context: TypeNodeContext = { checker, program, entityNames, depth: 0 };
+      properties.set(property.name, {
+        declaration,
+        type: createTypeNode(propertyType, context, optional),
+        optional,
+        inherited: declaration.parent !== node,
+        inlined: declaration.type !== undefined && referencesProjectType(declaration.type, context),
+      });
+    }
+    resolvedPropertyTypes.set(node.name!.text, properties);
+  }
+
+  return resolvedPropertyTypes;
+}
+
+interface TypeNodeContext {
+  checker: ts.TypeChecker;
+  program: ts.Program;
+  entityNames: Set<string>;
+  depth: number;
+}
+
+/**
+ * Whether the symbol is declared in the source files of the project (not in a library)
+ */
+function isDeclaredInProject(symbol: ts.Symbol, program: ts.Program): boolean {
+  return (symbol.declarations ?? []).some((declaration) => {
+    const sourceFile = declaration.getSourceFile();
+    return !sourceFile.isDeclarationFile && !program.isSourceFileFromExternalLibrary(sourceFile);
+  });
+}
+
+/**
+ * Whether a type annotation references an interface, type alias or class declared in the project (other than entities)
+ */
+function referencesProjectType(typeNode: ts.TypeNode, context: TypeNodeContext): boolean {
+  const { checker, program, entityNames } = context;
+  if (ts.isTypeReferenceNode(typeNode)) {
+    let symbol = checker.getSymbolAtLocation(typeNode.typeName);
+    if (symbol && (symbol.flags & ts.SymbolFlags.Alias)) {
+      symbol = checker.getAliasedSymbol(symbol);
+    }
+    if (
+      symbol &&
+      (symbol.flags & (ts.SymbolFlags.Interface | ts.SymbolFlags.TypeAlias | ts.SymbolFlags.Class)) &&
+      !entityNames.has(symbol.name) &&
+      isDeclaredInProject(symbol, program)
+    ) {
+      return true;
+    }
+  }
+  return ts.forEachChild(typeNode, (child) =>
+    ts.isTypeNode(child) && referencesProjectType(child, context) ? true : undefined,
+  ) ?? false;
+}
+
+/**
+ * Create a type node from a type resolved by the type checker.
+ * - entities, embeddables and enums are referenced by name, so the entity transforms can replace them
+ * - `Collection<T, O>` keeps only the item type
+ * - interfaces, type aliases and classes declared in the project are inlined as type literals
+ * - other types (primitives, `Date`, library types, etc.) are printed by the type checker
+ * The `undefined` of optional properties is left to their question token.
+ */
+function createTypeNode(type: ts.Type, context: TypeNodeContext, optional = false): ts.TypeNode {
+  const { checker, program, entityNames } = context;
+  const symbol = type.aliasSymbol ?? type.getSymbol();
+
+  if (symbol && (symbol.flags & ts.SymbolFlags.Class) && entityNames.has(symbol.name)) {
+    return ts.factory.createTypeReferenceNode(symbol.name);
+  }
+
+  if (symbol && (symbol.flags & ts.SymbolFlags.Enum)) {
+    return ts.factory.createTypeReferenceNode(symbol.name);
+  }
+
+  if (type.isUnion()) {
+    const unionMembers: ts.TypeNode[] = [];
+    let hasBoolean = false;
+    for (const unionMember of type.types) {
+      if (optional && (unionMember.flags & ts.TypeFlags.Undefined)) {
+        continue;
+      }
+      // `boolean` is the union `true | false`
+      if (unionMember.flags & ts.TypeFlags.BooleanLiteral) {
+        if (!hasBoolean) {
+          unionMembers.push(ts.factory.createKeywordTypeNode(ts.SyntaxKind.BooleanKeyword));
+          hasBoolean = true;
+        }
+        continue;
+      }
+      unionMembers.push(createTypeNode(unionMember, context));
+    }
+    return unionMembers.length === 1 ? unionMembers[0]! : ts.factory.createUnionTypeNode(unionMembers);
+  }
+
+  if (checker.isArrayType(type)) {
+    const itemType = checker.getTypeArguments(type as ts.TypeReference)[0];
+    const itemTypeNode = itemType
+      ? createTypeNode(itemType, context)
+      : ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword);
+    return ts.factory.createArrayTypeNode(
+      ts.isUnionTypeNode(itemTypeNode) ? ts.factory.createParenthesizedType(itemTypeNode) : itemTypeNode,
+    );
+  }
+
+  if (symbol?.name === "Collection" && !isDeclaredInProject(symbol, program)) {
+    const itemType = checker.getTypeArguments(type as ts.TypeReference)[0];
+    return ts.factory.createTypeReferenceNode(
+      "Collection",
+      itemType ? [createTypeNode(itemType, context)] : undefined,
+    );
+  }
+
+  if (
+    symbol &&
+    (type.flags & ts.TypeFlags.Object) &&
+    isDeclaredInProject(symbol, program) &&
+    checker.getSignaturesOfType(type, ts.SignatureKind.Call).length === 0
+  ) {
+    if (context.depth >= maxInlineDepth) {
+      return ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword);
+    }
+    return createTypeLiteralNode(type, { ...context, depth: context.depth + 1 });
+  }
+
+  return (
+    checker.typeToTypeNode(type, undefined, ts.NodeBuilderFlags.NoTruncation) ??
+    ts.factory.createKeywordTypeNode(ts.SyntaxKind.AnyKeyword)
+  );
+}
+
+/**
+ * Inline an object type declared in the project as a type literal of its properties
+ */
+function createTypeLiteralNode(type: ts.Type, context: TypeNodeContext): ts.TypeLiteralNode {
+  const members: ts.TypeElement[] = [];
+  for (const property of context.checker.getPropertiesOfType(type)) {
+    if (!(property.flags & ts.SymbolFlags.Property)) {
+      continue;
+    }
+    const optional = (property.flags & ts.SymbolFlags.Optional) !== 0;
+    members.push(
+      ts.factory.createPropertySignature(
+        undefined,
+        property.name,
+        optional ? ts.factory.createToken(ts.SyntaxKind.QuestionToken) : undefined,
+        createTypeNode(context.checker.getTypeOfSymbol(property), context, optional),
+      ),
+    );
+  }
+  return ts.factory.createTypeLiteralNode(members);
+}
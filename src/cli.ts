@@ -1,35 +1,48 @@
 #!/usr/bin/env node
 
-import { program } from "commander";
-import { generateEntityValidator, modelsToFunction } from "./generate.js";
+import { program, type Command, type OptionValues } from "commander";
+import { checkEntityValidator } from "./check.js";
+import { loadConfig, resolveJobs } from "./config.js";
+import {
+  generateEntityValidator,
+  modelsToFunction,
+  type GenerateEntityValidatorOptions,
+} from "./generate.js";
+import { type NamingOptions } from "./naming.js";
+import { type CollectionSemantics } from "./prepare.js";
+import { type SerializationMode } from "./serialization.js";
+import { type EntityVariant } from "./variants.js";
+import { watchEntityValidator } from "./watch.js";
 
-async function main() {
-  program
-    .name("mikro-typebox")
-    .description("Generate validation schemas from Mikro-ORM entities")
-    .version("1.0.0");
-
-  const modelNames = Object.keys(modelsToFunction);
+const modelNames = Object.keys(modelsToFunction);
 
-  program
-    .command("generate")
-    .description("Generate validation schemas from Mikro-ORM entities")
+/**
+ * Add the options shared by the generate and check commands
+ */
+function addGenerateOptions(command: Command): Command {
+  return command
     .option(
-      "-e, --entities <path>",
-      "Directory containing the entity files",
+      "-e, --entities <paths...>",
+      "Directories containing the entity files, searched recursively, or glob patterns of the entity files (repeatable)",
       "./src/entities",
     )
+    .option(
+      "--exclude-files <patterns...>",
+      "Glob patterns of the files to skip, e.g. \"*.spec.ts\" (patterns without a slash match the file names)",
+    )
+    .option(
+      "--orm-config <file>",
+      "Mikro-ORM config file whose entitiesTs or entities are read instead of --entities (the config file is not executed)",
+    )
     .option(
       "-o, --output <file>",
       "Output file path",
       "./src/entity-validators.ts",
     )
     .option(
-      "--write",
-      "Print the code to the console instead of writing to a file",
-      true
+      "--output-dir <dir>",
+      "Write one validator module per entity to this directory, with an index.ts barrel, instead of --output",
     )
-    .option("--no-write")
     .option(
       "-t, --target <library>",
       `Target validation library (${modelNames.join(", ")})`,
@@ -40,31 +53,281 @@ async function main() {
       "Generate partial types instead of inline primary key references (default: true for typebox)",
     )
     .option("--no-partials")
+    .option(
+      "--flat",
+      "Export the schemas and types from the module instead of namespace schema",
+    )
+    .option(
+      "--schema-name <template>",
+      "Naming template of the schemas, e.g. \"{name}Schema\" for UserSchema (the static types keep the type names)",
+    )
+    .option(
+      "--type-name <template>",
+      "Naming template of the static types of the schemas, e.g. \"{name}Dto\" for UserDto",
+    )
+    .option(
+      "--partial-name <template>",
+      "Naming template of the partial types referencing the entities, e.g. \"{name}Ref\" for UserRef (default: \"Partial{name}\")",
+    )
+    .option(
+      "--enum-name <template>",
+      "Naming template of the aliases of the imported enums, e.g. \"{name}Enum\" (default: \"Enum{name}\")",
+    )
+    .option(
+      "--collections <semantics>",
+      "Semantics of the collection relations: input (arrays of IDs or references) or output (arrays of serialized entities) (default: input)",
+    )
+    .option(
+      "--serialization <mode>",
+      "Representation of the property values: runtime (e.g. Date and bigint) or json (e.g. date-time and digit strings) (default: runtime)",
+    )
+    .option(
+      "--type-checker",
+      "Resolve the property types with the TypeScript type checker using the tsconfig of the entities directory",
+      false,
+    )
+    .option(
+      "--variants <variants...>",
+      "DTO variants to generate for each entity (create, update, response), e.g. --variants create update",
+    )
+    .option(
+      "--include <properties...>",
+      "Properties to keep in all the variants, e.g. User.password or *.password",
+    )
+    .option(
+      "--exclude <properties...>",
+      "Properties to remove from the schemas, e.g. User.password or *.password",
+    )
     .option("--verbose", "Verbose output", false)
-    .action(async (options) => {
+    .option(
+      "-c, --config <file>",
+      "Configuration file (default: mikro-typebox.config.{ts,mts,js,mjs,json} or the \"mikro-typebox\" key of package.json)",
+    )
+    .option(
+      "--job <names...>",
+      "Jobs of the configuration file to run (default: all the jobs)",
+    );
+}
+
+/**
+ * The options of the generate and check commands parsed by commander.
+ * The values are not validated by commander: generateEntityValidator rejects the unknown libraries, modes and variants.
+ */
+interface CliOptions extends OptionValues {
+  entities: string | string[];
+  excludeFiles?: string[];
+  ormConfig?: string;
+  output: string;
+  outputDir?: string;
+  target: GenerateEntityValidatorOptions["targetValidationLibrary"];
+  write?: boolean;
+  partials?: boolean;
+  noPartials?: boolean;
+  flat?: boolean;
+  schemaName?: string;
+  typeName?: string;
+  partialName?: string;
+  enumName?: string;
+  collections?: CollectionSemantics;
+  serialization?: SerializationMode;
+  typeChecker: boolean;
+  /** The variants, which might be separated by commas, e.g. `create,update` */
+  variants?: string[];
+  include?: string[];
+  exclude?: string[];
+  verbose: boolean;
+  config?: string;
+  job?: string[];
+}
+
+/**
+ * Get the naming templates given on the command line
+ */
+function getNamingOptions(options: CliOptions): NamingOptions | undefined {
+  const naming = Object.fromEntries(
+    Object.entries({
+      schema: options.schemaName,
+      type: options.typeName,
+      partial: options.partialName,
+      enum: options.enumName,
+    }).filter(([, template]) => template !== undefined),
+  );
+  return Object.keys(naming).length > 0 ? naming : undefined;
+}
+
+/**
+ * Get the options of generateEntityValidator from the parsed command line options
+ */
+function getGenerateOptions(options: CliOptions): GenerateEntityValidatorOptions {
+  return {
+    entitiesDir: options.entities,
+    excludeFiles: options.excludeFiles,
+    ormConfig: options.ormConfig,
+    outputFile: options.output,
+    outputDir: options.outputDir,
+    targetValidationLibrary: options.target,
+    write: options.write,
+    partials:
+      options.partials ?? (options.noPartials ? false : undefined),
+    flat: options.flat,
+    naming: getNamingOptions(options),
+    collections: options.collections,
+    serialization: options.serialization,
+    typeChecker: options.typeChecker,
+    variants: options.variants?.flatMap((variant) => variant.split(",") as EntityVariant[]),
+    include: options.include,
+    exclude: options.exclude,
+    verbose: options.verbose,
+  };
+}
+
+/**
+ * Get the options of each job to run. Without a configuration file, the command line options are a single job.
+ * Otherwise, the options given on the command line override the options of the configuration jobs.
+ */
+async function getJobsOptions(command: Command): Promise<GenerateEntityValidatorOptions[]> {
+  const options = command.opts<CliOptions>();
+  const generateOptions = getGenerateOptions(options);
+  const loaded = await loadConfig(options.config);
+  if (!loaded) {
+    if (options.job) {
+      throw new Error("The --job option requires a configuration file");
+    }
+    return [generateOptions];
+  }
+
+  const optionNames: Record<string, keyof GenerateEntityValidatorOptions> = {
+    entities: "entitiesDir",
+    excludeFiles: "excludeFiles",
+    ormConfig: "ormConfig",
+    output: "outputFile",
+    outputDir: "outputDir",
+    target: "targetValidationLibrary",
+    partials: "partials",
+    flat: "flat",
+    schemaName: "naming",
+    typeName: "naming",
+    partialName: "naming",
+    enumName: "naming",
+    collections: "collections",
+    serialization: "serialization",
+    typeChecker: "typeChecker",
+    variants: "variants",
+    include: "include",
+    exclude: "exclude",
+    verbose: "verbose",
+  };
+  const overrides: GenerateEntityValidatorOptions = { write: generateOptions.write };
+  for (const [optionName, generateOptionName] of Object.entries(optionNames)) {
+    if (command.getOptionValueSource(optionName) === "cli") {
+      Object.assign(overrides, { [generateOptionName]: generateOptions[generateOptionName] });
+    }
+  }
+
+  // the naming templates given on the command line override the templates of the jobs one by one
+  return resolveJobs(loaded.config, loaded.configPath, options.job).map(
+    ({ name: _name, ...job }) => ({
+      ...job,
+      ...overrides,
+      naming: overrides.naming ? { ...job.naming, ...overrides.naming } : job.naming,
+    }),
+  );
+}
+
+function exitWithError(error: unknown): never {
+  console.error(
+    "Error:",
+    error instanceof Error ? error.message : String(error),
+  );
+  process.exit(1);
+}
+
+async function main() {
+  program
+    .name("mikro-typebox")
+    .description("Generate validation schemas from Mikro-ORM entities")
+    .version("1.0.0");
+
+  addGenerateOptions(
+    program
+      .command("generate")
+      .description("Generate validation schemas from Mikro-ORM entities"),
+  )
+    .option(
+      "--write",
+      "Print the code to the console instead of writing to a file",
+      true
+    )
+    .option("--no-write")
+    .option(
+      "-w, --watch",
+      "Watch the entities directory and regenerate the output file when the entities change",
+      false,
+    )
+    .action(async (options: CliOptions & { watch: boolean }, command: Command) => {
       try {
-        const result = await generateEntityValidator({
-          entitiesDir: options.entities,
-          outputFile: options.output,
-          targetValidationLibrary: options.target,
-          write: options.write,
-          partials:
-            options.partials ?? (options.noPartials ? false : undefined),
-          verbose: options.verbose,
-        });
-
-        if (!options.write) {
-          console.log(result);
+        const jobsOptions = await getJobsOptions(command);
+
+        if (options.watch) {
+          if (!options.write) {
+            throw new Error("The --watch option cannot be used with --no-write");
+          }
+          for (const generateOptions of jobsOptions) {
+            await watchEntityValidator({
+              ...generateOptions,
+              onGenerate: ({ outputFile, written }) => {
+                console.log(written ? `Generated ${outputFile}` : `No changes to ${outputFile}`);
+              },
+              onError: (error) => {
+                console.error("Error:", error.message);
+              },
+            });
+            const watched = generateOptions.ormConfig
+              ? `the entities of ${generateOptions.ormConfig}`
+              : [generateOptions.entitiesDir ?? "./src/entities"].flat().join(", ");
+            console.log(`Watching ${watched} for changes...`);
+          }
+          return;
+        }
+
+        for (const generateOptions of jobsOptions) {
+          const result = await generateEntityValidator(generateOptions);
+
+          if (!options.write) {
+            console.log(result);
+          }
         }
       } catch (error) {
-        console.error(
-          "Error:",
-          error instanceof Error ? error.message : String(error),
-        );
-        process.exit(1);
+        exitWithError(error);
       }
     });
 
+  addGenerateOptions(
+    program
+      .command("check")
+      .description("Check that the output files are up to date with the Mikro-ORM entities, and print the diff if not"),
+  ).action(async (_options, command: Command) => {
+    try {
+      let outOfDate = false;
+      for (const generateOptions of await getJobsOptions(command)) {
+        const { outputFile, upToDate, diff } = await checkEntityValidator(generateOptions);
+
+        if (upToDate) {
+          console.log(`${outputFile} is up to date`);
+          continue;
+        }
+        console.log(diff);
+        console.error(`${outputFile} is out of date. Run mikro-typebox generate to update it.`);
+        outOfDate = true;
+      }
+      if (outOfDate) {
+        process.exit(1);
+      }
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
   // Handle unknown commands
   program.on("command:*", () => {
     console.error(`Invalid command: ${program.args.join(" ")}`);
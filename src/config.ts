@@ -0,0 +1,181 @@
+import { existsSync } from "fs";
+import { readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { pathToFileURL } from "url";
+import * as ts from "typescript";
+import type { GenerateEntityValidatorOptions } from "./generate.js";
+
+/**
+ * The options of a generation job
+ */
+export type GenerateJobOptions = Omit<GenerateEntityValidatorOptions, "write">;
+
+/**
+ * The configuration of mikro-typebox.
+ * The top-level options apply to all the jobs, which can override them.
+ * Without jobs, the top-level options are a single job named `default`.
+ */
+export type MikroTypeboxConfig = GenerateJobOptions & {
+  /**
+   * The generation jobs by name, e.g. `{ api: { target: "zod", outputFile: "./src/api/validators.ts" } }`
+   */
+  jobs?: Record<string, GenerateJobOptions> | undefined;
+};
+
+/**
+ * A generation job of the configuration, with its paths resolved from the directory of the configuration file
+ */
+export type GenerateJob = GenerateJobOptions & {
+  name: string;
+};
+
+/**
+ * The configuration files, by order of precedence
+ */
+export const configFileNames = [
+  "mikro-typebox.config.ts",
+  "mikro-typebox.config.mts",
+  "mikro-typebox.config.js",
+  "mikro-typebox.config.mjs",
+  "mikro-typebox.config.json",
+];
+
+/**
+ * The key of the configuration in package.json
+ */
+export const packageJsonConfigKey = "mikro-typebox";
+
+/**
+ * Define the configuration with type checking, e.g. `export default defineConfig({ ... })`
+ */
+export function defineConfig(config: MikroTypeboxConfig): MikroTypeboxConfig {
+  return config;
+}
+
+/**
+ * Import a JavaScript or TypeScript module. TypeScript modules are transpiled next to the original file,
+ * so their imports are resolved the same way.
+ */
+async function importConfigModule(configPath: string): Promise<unknown> {
+  if (![".ts", ".mts"].includes(path.extname(configPath))) {
+    const module = await import(pathToFileURL(configPath).href);
+    return module.default ?? module;
+  }
+
+  const source = await readFile(configPath, "utf-8");
+  const { outputText } = ts.transpileModule(source, {
+    fileName: configPath,
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+  });
+  const transpiledPath = path.join(
+    path.dirname(configPath),
+    `.${path.basename(configPath)}.${Date.now()}.mjs`,
+  );
+  await writeFile(transpiledPath, outputText);
+  try {
+    const module = await import(pathToFileURL(transpiledPath).href);
+    return module.default ?? module;
+  } finally {
+    await rm(transpiledPath, { force: true });
+  }
+}
+
+/**
+ * Load the configuration from the given file, or find it in the directory:
+ * `mikro-typebox.config.{ts,mts,js,mjs,json}`, or the `"mikro-typebox"` key of package.json.
+ * @param configFile - The configuration file, which must exist if given.
+ * @param cwd - The directory to find the configuration in.
+ * @returns The configuration and its path, or undefined if there is no configuration.
+ */
+export async function loadConfig(
+  configFile?: string,
+  cwd = process.cwd(),
+): Promise<{ config: MikroTypeboxConfig; configPath: string } | undefined> {
+  const dir = path.resolve(cwd);
+  let configPath: string | undefined;
+  if (configFile) {
+    configPath = path.resolve(dir, configFile);
+    if (!existsSync(configPath)) {
+      throw new Error(`Config file does not exist: ${configPath}`);
+    }
+  } else {
+    configPath = configFileNames.map((fileName) => path.join(dir, fileName)).find(existsSync);
+  }
+
+  let config: unknown;
+  if (configPath) {
+    config = path.extname(configPath) === ".json"
+      ? JSON.parse(await readFile(configPath, "utf-8"))
+      : await importConfigModule(configPath);
+  } else {
+    const packageJsonPath = path.join(dir, "package.json");
+    if (!existsSync(packageJsonPath)) {
+      return undefined;
+    }
+    config = JSON.parse(await readFile(packageJsonPath, "utf-8"))[packageJsonConfigKey];
+    if (config === undefined) {
+      return undefined;
+    }
+    configPath = packageJsonPath;
+  }
+
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    throw new Error(`Invalid config in ${configPath}: expected an object`);
+  }
+  const { jobs } = config as MikroTypeboxConfig;
+  if (jobs !== undefined && (typeof jobs !== "object" || jobs === null || Array.isArray(jobs))) {
+    throw new Error(`Invalid config in ${configPath}: expected the jobs to be an object of jobs by name`);
+  }
+  return { config: config as MikroTypeboxConfig, configPath };
+}
+
+/**
+ * Get the jobs of the configuration, with the top-level options as defaults
+ * and the paths resolved from the directory of the configuration file.
+ * @param config - The configuration.
+ * @param configPath - The path of the configuration file.
+ * @param jobNames - The names of the jobs to get, or all the jobs if empty.
+ */
+export function resolveJobs(
+  config: MikroTypeboxConfig,
+  configPath: string,
+  jobNames: string[] = [],
+): GenerateJob[] {
+  const { jobs, ...defaults } = config;
+  const allJobs = Object.entries(jobs ?? { default: {} });
+
+  const unknownJobNames = jobNames.filter((jobName) => !allJobs.some(([name]) => name === jobName));
+  if (unknownJobNames.length > 0) {
+    throw new Error(
+      `Unknown jobs: ${unknownJobNames.join(", ")}. The jobs of ${configPath} are ${allJobs.map(([name]) => name).join(", ")}.`,
+    );
+  }
+
+  const configDir = path.dirname(configPath);
+  return allJobs
+    .filter(([name]) => jobNames.length === 0 || jobNames.includes(name))
+    .map(([name, jobOptions]) => {
+      const job: GenerateJob = { ...defaults, ...jobOptions, name };
+      if (job.entitiesDir !== undefined) {
+        job.entitiesDir = Array.isArray(job.entitiesDir)
+          ? job.entitiesDir.map((entitiesDir) => path.resolve(configDir, entitiesDir))
+          : path.resolve(configDir, job.entitiesDir);
+      }
+      if (job.ormConfig !== undefined) {
+        job.ormConfig = path.resolve(configDir, job.ormConfig);
+      }
+      if (job.excludeFiles !== undefined) {
+        // the patterns without a slash match the file names anywhere
+        job.excludeFiles = job.excludeFiles.map((pattern) =>
+          pattern.includes("/") ? path.resolve(configDir, pattern) : pattern,
+        );
+      }
+      if (job.outputFile !== undefined) {
+        job.outputFile = path.resolve(configDir, job.outputFile);
+      }
+      if (job.outputDir !== undefined) {
+        job.outputDir = path.resolve(configDir, job.outputDir);
+      }
+      return job;
+    });
+}
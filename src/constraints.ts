@@ -0,0 +1,427 @@
+import * as ts from "typescript";
+import { getPropertyOption } from "./decorators.js";
+
+/**
+ * Get the value of a static option like `255`, `-1`, `"x"`, `true` or `null`.
+ * Returns undefined for non-static values like `() => new Date()`.
+ */
+export function getLiteralValue(expression: ts.Expression | undefined): unknown {
+  if (!expression) {
+    return undefined;
+  }
+  if (ts.isStringLiteralLike(expression)) {
+    return expression.text;
+  }
+  if (ts.isNumericLiteral(expression)) {
+    return Number(expression.text);
+  }
+  if (
+    ts.isPrefixUnaryExpression(expression) &&
+    expression.operator === ts.SyntaxKind.MinusToken &&
+    ts.isNumericLiteral(expression.operand)
+  ) {
+    return -Number(expression.operand.text);
+  }
+  if (expression.kind === ts.SyntaxKind.TrueKeyword) {
+    return true;
+  }
+  if (expression.kind === ts.SyntaxKind.FalseKeyword) {
+    return false;
+  }
+  if (expression.kind === ts.SyntaxKind.NullKeyword) {
+    return null;
+  }
+  return undefined;
+}
+
+/**
+ * Get the database type of a property from its `columnType` or `type` option, e.g.
+ * `"decimal(10,2)"`, `"varchar(255)"`, `"bigint"`, `DecimalType`, `types.decimal` or `new DecimalType()`
+ */
+export function getColumnType(member: ts.PropertyDeclaration): string | undefined {
+  const columnType = getPropertyOption(member, "columnType");
+  if (columnType && ts.isStringLiteralLike(columnType)) {
+    return columnType.text.toLowerCase();
+  }
+
+  let type = getPropertyOption(member, "type");
+  if (type && ts.isNewExpression(type)) {
+    type = type.expression;
+  }
+  if (!type) {
+    return undefined;
+  }
+  if (ts.isStringLiteralLike(type)) {
+    return type.text.toLowerCase();
+  }
+  if (ts.isIdentifier(type)) {
+    return type.text.replace(/Type$/, "").toLowerCase();
+  }
+  if (ts.isPropertyAccessExpression(type)) {
+    return type.name.text.toLowerCase();
+  }
+  return undefined;
+}
+
+/**
+ * Get the primitive keyword of a type, ignoring `null` and `undefined` in unions
+ */
+function getPrimitiveKeyword(type: ts.TypeNode): "string" | "number" | undefined {
+  if (ts.isUnionTypeNode(type)) {
+    const nonNullTypes = type.types.filter((unionMember) => !isNullOrUndefinedType(unionMember));
+    return nonNullTypes.length === 1 ? getPrimitiveKeyword(nonNullTypes[0]!) : undefined;
+  }
+  if (type.kind === ts.SyntaxKind.StringKeyword) {
+    return "string";
+  }
+  if (type.kind === ts.SyntaxKind.NumberKeyword) {
+    return "number";
+  }
+  return undefined;
+}
+
+function isNullOrUndefinedType(type: ts.TypeNode): boolean {
+  return (
+    type.kind === ts.SyntaxKind.UndefinedKeyword ||
+    (ts.isLiteralTypeNode(type) && type.literal.kind === ts.SyntaxKind.NullKeyword)
+  );
+}
+
+/**
+ * Create the pattern of a decimal string like `decimal(10,2)`.
+ * Mikro-ORM maps decimal columns to strings to avoid precision loss.
+ */
+function createDecimalPattern(
+  precision: number | undefined,
+  scale: number | undefined,
+  unsigned: boolean,
+): string {
+  const sign = unsigned ? "" : "-?";
+  if (precision === undefined) {
+    return `^${sign}\\d+(\\.\\d+)?$`;
+  }
+  const fractionDigits = scale ?? 0;
+  const integerDigits = precision - fractionDigits;
+  const integer = integerDigits > 0 ? `\\d{1,${integerDigits}}` : "0";
+  return fractionDigits > 0
+    ? `^${sign}${integer}(\\.\\d{1,${fractionDigits}})?$`
+    : `^${sign}${integer}$`;
+}
+
+/**
+ * Whether the property is declared with `nullable: true`
+ */
+export function isNullableProperty(member: ts.PropertyDeclaration): boolean {
+  return getLiteralValue(getPropertyOption(member, "nullable")) === true;
+}
+
+/**
+ * Add `null` to a type if it does not already include it
+ */
+export function createNullableType(type: ts.TypeNode): ts.TypeNode {
+  const unionMembers = ts.isUnionTypeNode(type) ? [...type.types] : [type];
+  if (
+    unionMembers.some(
+      (unionMember) =>
+        ts.isLiteralTypeNode(unionMember) && unionMember.literal.kind === ts.SyntaxKind.NullKeyword,
+    )
+  ) {
+    return type;
+  }
+  return ts.factory.createUnionTypeNode([
+    ...unionMembers,
+    ts.factory.createLiteralTypeNode(ts.factory.createNull()),
+  ]);
+}
+
+/**
+ * Map the Mikro-ORM property options to validation constraints:
+ * - `length` and `varchar(n)` column types to `maxLength`
+ * - decimal and bigint string columns to digit `pattern`s
+ * - `unsigned` numbers to `minimum: 0`
+ * - static `default` values to `default`
+ */
+export function getPropertyConstraints(
+  member: ts.PropertyDeclaration,
+  type: ts.TypeNode,
+): Record<string, unknown> {
+  const constraints: Record<string, unknown> = {};
+  const keyword = getPrimitiveKeyword(type);
+  const columnType = getColumnType(member);
+  const unsigned = getLiteralValue(getPropertyOption(member, "unsigned")) === true;
+
+  if (keyword === "string") {
+    const length =
+      getLiteralValue(getPropertyOption(member, "length")) ??
+      /^(?:varchar|char|nvarchar|nchar|character varying|character)\(\s*(\d+)\s*\)$/.exec(columnType ?? "")?.[1];
+    if (length !== undefined) {
+      constraints["maxLength"] = Number(length);
+    }
+
+    const decimalMatch = /^(?:decimal|numeric)(?:\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\))?$/.exec(columnType ?? "");
+    if (decimalMatch) {
+      const precision = getLiteralValue(getPropertyOption(member, "precision")) ?? decimalMatch[1];
+      const scale = getLiteralValue(getPropertyOption(member, "scale")) ?? decimalMatch[2];
+      constraints["pattern"] = createDecimalPattern(
+        precision === undefined ? undefined : Number(precision),
+        scale === undefined ? undefined : Number(scale),
+        unsigned,
+      );
+    } else if (columnType === "bigint") {
+      constraints["pattern"] = unsigned ? "^\\d+$" : "^-?\\d+$";
+    }
+  }
+
+  if (keyword === "number" && unsigned) {
+    constraints["minimum"] = 0;
+  }
+
+  const defaultValue = getLiteralValue(getPropertyOption(member, "default"));
+  if (defaultValue !== undefined) {
+    constraints["default"] = defaultValue;
+  }
+
+  return constraints;
+}
+
+/**
+ * Add the constraints as JSDoc tags (e.g. `@maxLength 255`) which typebox-codegen reads as schema options.
+ * Each tag is written on its own line with a quoted JSON value, as the JSDoc parser of typebox-codegen
+ * ends unquoted values at the first `-` or newline.
+ */
+export function addConstraintsComment<T extends ts.Node>(
+  node: T,
+  constraints: Record<string, unknown>,
+): T {
+  const tags = Object.entries(constraints).map(
+    ([key, value]) => `\n * @${key} '${JSON.stringify(value).replaceAll("'", "\\u0027")}'`,
+  );
+  if (tags.length === 0) {
+    return node;
+  }
+  return ts.addSyntheticLeadingComment(
+    node,
+    ts.SyntaxKind.MultiLineCommentTrivia,
+    `*${tags.join("")}\n `,
+    true,
+  );
+}
+
+/**
+ * Move the options of the nullable unions generated by typebox-codegen onto their non-null member,
+ * e.g. `Type.Union([Type.String(), Type.Null()], { maxLength: 100 })` to
+ * `Type.Union([Type.String({ maxLength: 100 }), Type.Null()])`, as the string and number constraints
+ * are only checked on the string and number schemas.
+ * The `default` stays on the union as it is the default of the property.
+ */
+export function moveNullableConstraints(typeboxCode: string): string {
+  const sourceFile = ts.createSourceFile("constraints.ts", typeboxCode, ts.ScriptTarget.Latest, true);
+  const edits: { start: number; end: number; text: string }[] = [];
+
+  const isTypeCall = (node: ts.Node, name?: string): node is ts.CallExpression =>
+    ts.isCallExpression(node) &&
+    ts.isPropertyAccessExpression(node.expression) &&
+    ts.isIdentifier(node.expression.expression) &&
+    node.expression.expression.text === "Type" &&
+    (name === undefined || node.expression.name.text === name);
+
+  const visit = (node: ts.Node): void => {
+    const [members, options] = isTypeCall(node, "Union") ? node.arguments : [];
+    if (members && options && ts.isArrayLiteralExpression(members) && ts.isObjectLiteralExpression(options)) {
+      const nonNullMembers = members.elements.filter((member) => !isTypeCall(member, "Null"));
+      const [member] = nonNullMembers;
+      if (
+        nonNullMembers.length === 1 &&
+        nonNullMembers.length < members.elements.length &&
+        member &&
+        isTypeCall(member) &&
+        member.arguments.length === 0
+      ) {
+        // The options are moved as written, as they are not always JSON (e.g. a `default` of an identifier)
+        const properties = options.properties.filter(ts.isPropertyAssignment);
+        const isDefault = (property: ts.PropertyAssignment) =>
+          (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name)) && property.name.text === "default";
+        const constraints = properties.filter((property) => !isDefault(property));
+        const defaultValue = properties.find(isDefault);
+        if (properties.length === options.properties.length && constraints.length > 0) {
+          const getOptionsText = (optionProperties: ts.PropertyAssignment[]) =>
+            `{ ${optionProperties.map((property) => property.getText(sourceFile)).join(", ")} }`;
+          edits.push({ start: member.end - 1, end: member.end - 1, text: getOptionsText(constraints) });
+          edits.push({
+            start: members.end,
+            end: options.end,
+            text: defaultValue === undefined ? "" : `, ${getOptionsText([defaultValue])}`,
+          });
+        }
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  let code = typeboxCode;
+  for (const { start, end, text } of edits.sort((a, b) => b.start - a.start)) {
+    code = code.slice(0, start) + text + code.slice(end);
+  }
+  return code;
+}
+
+/**
+ * Move the options of the nullable unions of a model generated by typebox-codegen onto their non-null member,
+ * like `moveNullableConstraints` does for the TypeBox code. The `default` stays on the union.
+ */
+export function moveNullableModelConstraints(schema: unknown): void {
+  if (typeof schema !== "object" || schema === null) {
+    return;
+  }
+  const record = schema as Record<string, unknown>;
+  const members = record["anyOf"];
+  if (Array.isArray(members)) {
+    const nonNullMembers = members.filter((member) => member?.type !== "null");
+    const [member] = nonNullMembers;
+    const optionNames = Object.keys(record).filter((key) => !["anyOf", "default", "$id"].includes(key));
+    if (
+      nonNullMembers.length === 1 &&
+      nonNullMembers.length < members.length &&
+      optionNames.length > 0 &&
+      typeof member === "object" &&
+      member !== null &&
+      Object.keys(member).every((key) => key === "type")
+    ) {
+      for (const optionName of optionNames) {
+        member[optionName] = record[optionName];
+        delete record[optionName];
+      }
+    }
+  }
+  for (const value of Object.values(record)) {
+    moveNullableModelConstraints(value);
+  }
+}
+
+/**
+ * The string schemas emitted by the model generators which ignore the `pattern` of the string schemas,
+ * with the code of the string schema with the pattern
+ */
+const patternStringSchemas: Record<
+  string,
+  { matches: (node: ts.Node) => boolean; addPattern: (node: ts.Node, code: string, pattern: string) => string }
+> = {
+  arktype: {
+    matches: (node) => ts.isStringLiteral(node) && /(^|\| )string( \||$)/.test(node.text),
+    addPattern: (node, code, pattern) =>
+      code === "'string'"
+        ? `/${pattern}/`
+        : JSON.stringify((node as ts.StringLiteral).text.replace(/(^|\| )string( \||$)/, `$1/${pattern}/$2`)),
+  },
+  effect: {
+    matches: (node) => isPropertyAccess(node, "ES", "String"),
+    addPattern: (_node, code, pattern) => `${code}.pipe(ES.pattern(/${pattern}/))`,
+  },
+  "io-ts": {
+    matches: (node) => isPropertyAccess(node, "t", "string"),
+    addPattern: (_node, code, pattern) => `t.refinement(${code}, (value) => /${pattern}/.test(value))`,
+  },
+  valibot: {
+    matches: (node) => ts.isCallExpression(node) && isPropertyAccess(node.expression, "v", "string"),
+    addPattern: (_node, code, pattern) => `v.pipe(${code}, v.regex(/${pattern}/))`,
+  },
+  yup: {
+    matches: (node) => ts.isCallExpression(node) && isPropertyAccess(node.expression, "y", "string"),
+    addPattern: (_node, code, pattern) => `${code}.matches(/${pattern}/)`,
+  },
+  zod: {
+    matches: (node) => ts.isCallExpression(node) && isPropertyAccess(node.expression, "z", "string"),
+    addPattern: (_node, code, pattern) => `${code}.regex(/${pattern}/)`,
+  },
+};
+
+function isPropertyAccess(node: ts.Node, objectName: string, propertyName: string): boolean {
+  return (
+    ts.isPropertyAccessExpression(node) &&
+    ts.isIdentifier(node.expression) &&
+    node.expression.text === objectName &&
+    node.name.text === propertyName
+  );
+}
+
+/**
+ * Add the patterns of the string properties of a model generated by typebox-codegen (e.g. of the decimal columns)
+ * to the code emitted from the model for a validation library, e.g. `price: z.string()` to
+ * `price: z.string().regex(/^-?\d{1,8}(\.\d{1,2})?$/)`, as the model generators of Zod, Valibot, etc.
+ * only emit the patterns of the template literal schemas.
+ */
+export function addModelStringPatterns(code: string, types: unknown[], targetValidationLibrary: string): string {
+  const stringSchema = patternStringSchemas[targetValidationLibrary];
+  if (!stringSchema) {
+    return code;
+  }
+
+  // The patterns of the string properties (and of the non-null member of the nullable properties) by type name
+  const kind = Symbol.for("TypeBox.Kind");
+  const patterns = new Map<string, Map<string, string>>();
+  for (const type of types as { $id?: string; properties?: Record<string, Record<string | symbol, unknown>> }[]) {
+    for (const [propertyName, property] of Object.entries(type.properties ?? {})) {
+      const members = [property, ...(Array.isArray(property["anyOf"]) ? property["anyOf"] : [])];
+      const stringMember = members.find((member) => member[kind] === "String" && typeof member["pattern"] === "string");
+      const pattern = stringMember?.["pattern"];
+      if (type.$id !== undefined && typeof pattern === "string") {
+        patterns.set(type.$id, (patterns.get(type.$id) ?? new Map()).set(propertyName, pattern));
+      }
+    }
+  }
+  if (patterns.size === 0) {
+    return code;
+  }
+
+  const sourceFile = ts.createSourceFile("model.ts", code, ts.ScriptTarget.Latest, true);
+  const edits: { start: number; end: number; text: string }[] = [];
+
+  // Find the properties in the object schemas of a type, e.g. `z.object({ ... })`, without the nested objects
+  const visitType = (node: ts.Node, typePatterns: Map<string, string>): void => {
+    if (!ts.isObjectLiteralExpression(node)) {
+      ts.forEachChild(node, (child) => visitType(child, typePatterns));
+      return;
+    }
+    for (const property of node.properties) {
+      const propertyName =
+        ts.isPropertyAssignment(property) && (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))
+          ? property.name.text.replace(/\?$/, "")
+          : undefined;
+      const pattern = propertyName === undefined ? undefined : typePatterns.get(propertyName);
+      if (pattern === undefined || !ts.isPropertyAssignment(property)) {
+        continue;
+      }
+      const findStringSchema = (child: ts.Node): ts.Node | undefined =>
+        stringSchema.matches(child) ? child : ts.forEachChild(child, findStringSchema);
+      const stringNode = findStringSchema(property.initializer);
+      if (stringNode) {
+        const start = stringNode.getStart(sourceFile);
+        edits.push({
+          start,
+          end: stringNode.end,
+          text: stringSchema.addPattern(stringNode, code.slice(start, stringNode.end), pattern),
+        });
+      }
+    }
+  };
+
+  // Find the declarations of the types, e.g. `export const Product = ...` or `Product: type({ ... })` in a scope
+  const visit = (node: ts.Node): void => {
+    const declaration = ts.isVariableDeclaration(node) || ts.isPropertyAssignment(node) ? node : undefined;
+    const typePatterns =
+      declaration && ts.isIdentifier(declaration.name) ? patterns.get(declaration.name.text) : undefined;
+    if (declaration?.initializer && typePatterns) {
+      visitType(declaration.initializer, typePatterns);
+    } else {
+      ts.forEachChild(node, visit);
+    }
+  };
+  visit(sourceFile);
+
+  let patternCode = code;
+  for (const { start, end, text } of edits.sort((a, b) => b.start - a.start)) {
+    patternCode = patternCode.slice(0, start) + text + patternCode.slice(end);
+  }
+  return patternCode;
+}
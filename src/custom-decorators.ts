@@ -0,0 +1,180 @@
+import * as ts from "typescript";
+
+/**
+ * The Mikro-ORM decorators a custom decorator can stand for
+ */
+export const mikroOrmDecorators = [
+  "Entity",
+  "Embeddable",
+  "PrimaryKey",
+  "Property",
+  "Enum",
+  "Formula",
+  "ManyToOne",
+  "OneToOne",
+  "OneToMany",
+  "ManyToMany",
+  "Embedded",
+] as const;
+
+export type MikroOrmDecorator = (typeof mikroOrmDecorators)[number];
+
+/**
+ * The Mikro-ORM semantics of a custom decorator, e.g. `@AuditedEntity()` applying `@Entity()` with timestamps
+ */
+export type CustomDecorator = {
+  /**
+   * The Mikro-ORM decorator the custom decorator stands for, e.g. `"Entity"` for `@AuditedEntity()`
+   * or `"ManyToOne"` for `@Ref(() => User)`. The arguments of the custom decorator are its arguments.
+   */
+  decorator: MikroOrmDecorator;
+  /**
+   * The module the custom decorator is imported from, e.g. `"@app/orm"`.
+   * By default, the decorators with the name match whatever their import source.
+   */
+  from?: string | undefined;
+  /**
+   * The properties the custom class decorator adds to the classes, with their types,
+   * e.g. `{ createdAt: "Opt<Date>", updatedAt: "Opt<Date>" }` (the properties declared by the classes are kept)
+   */
+  properties?: Record<string, string> | undefined;
+};
+
+/**
+ * The custom decorators by name, with the Mikro-ORM decorator they stand for or their semantics,
+ * e.g. `{ Ref: "ManyToOne", AuditedEntity: { decorator: "Entity", properties: { createdAt: "Date" } } }`
+ */
+export type CustomDecorators = Record<string, MikroOrmDecorator | CustomDecorator>;
+
+/**
+ * Check the Mikro-ORM decorators of the custom decorators
+ */
+export function validateCustomDecorators(customDecorators: CustomDecorators = {}): void {
+  const invalidDecorators = Object.entries(customDecorators).filter(([, customDecorator]) => {
+    const { decorator } = typeof customDecorator === "string" ? { decorator: customDecorator } : customDecorator;
+    return !(mikroOrmDecorators as readonly string[]).includes(decorator);
+  });
+  if (invalidDecorators.length > 0) {
+    throw new Error(
+      `Unknown Mikro-ORM decorators of the custom decorators: ${invalidDecorators.map(([name]) => name).join(", ")}. ` +
+        `The supported decorators are ${mikroOrmDecorators.join(", ")}.`,
+    );
+  }
+}
+
+/**
+ * The import of a name, e.g. `{ name: "AuditedEntity", from: "@app/orm" }` for `import { AuditedEntity as Audited } from "@app/orm"`
+ */
+type ImportedName = { name: string; from: string };
+
+/**
+ * Collect the imported names of a source file by local name, and the modules of the namespace imports
+ */
+function collectImportedNames(sourceFile: ts.SourceFile): {
+  names: Map<string, ImportedName>;
+  namespaces: Map<string, string>;
+} {
+  const names = new Map<string, ImportedName>();
+  const namespaces = new Map<string, string>();
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) {
+      continue;
+    }
+    const from = statement.moduleSpecifier.text;
+    const namedBindings = statement.importClause?.namedBindings;
+    if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+      namespaces.set(namedBindings.name.text, from);
+    }
+    for (const element of namedBindings && ts.isNamedImports(namedBindings) ? namedBindings.elements : []) {
+      names.set(element.name.text, { name: (element.propertyName ?? element.name).text, from });
+    }
+  }
+  return { names, namespaces };
+}
+
+/**
+ * Replace the custom decorators with the Mikro-ORM decorators they stand for, so the entities are processed like
+ * the entities declared with the Mikro-ORM decorators, e.g. `@Ref(() => User)` becomes `@ManyToOne(() => User)`.
+ * The properties added by the custom class decorators are declared with `@Property()` at the end of the classes.
+ * @param files - The contents of the entity files by path.
+ * @param customDecorators - The custom decorators by name.
+ * @returns The contents of the entity files, unchanged for the files without custom decorators.
+ */
+export function transformCustomDecorators(
+  files: Map<string, string>,
+  customDecorators: CustomDecorators = {},
+): Map<string, string> {
+  const customDecoratorNames = Object.keys(customDecorators);
+  if (customDecoratorNames.length === 0) {
+    return files;
+  }
+
+  const transformedFiles = new Map(files);
+  for (const [filePath, content] of files) {
+    // skip the files which cannot contain custom decorators
+    if (!customDecoratorNames.some((name) => content.includes(name))) {
+      continue;
+    }
+    const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
+    const { names, namespaces } = collectImportedNames(sourceFile);
+
+    /**
+     * Get the semantics of a decorator like `@Audited()`, `@Audited` or `@orm.Audited()` if it is a custom decorator
+     */
+    const getCustomDecorator = (decorator: ts.Decorator) => {
+      const expression = ts.isCallExpression(decorator.expression)
+        ? decorator.expression.expression
+        : decorator.expression;
+      let importedName: { name: string; from?: string } | undefined;
+      if (ts.isIdentifier(expression)) {
+        importedName = names.get(expression.text) ?? { name: expression.text };
+      } else if (ts.isPropertyAccessExpression(expression) && ts.isIdentifier(expression.expression)) {
+        const from = namespaces.get(expression.expression.text);
+        importedName = from === undefined ? undefined : { name: expression.name.text, from };
+      }
+      const customDecorator = importedName && Object.hasOwn(customDecorators, importedName.name)
+        ? customDecorators[importedName.name]!
+        : undefined;
+      if (!importedName || !customDecorator) {
+        return undefined;
+      }
+      const semantics = typeof customDecorator === "string" ? { decorator: customDecorator } : customDecorator;
+      return semantics.from === undefined || semantics.from === importedName.from
+        ? { expression, semantics }
+        : undefined;
+    };
+
+    const edits: { start: number; end: number; text: string }[] = [];
+    const visit = (node: ts.Node): void => {
+      for (const decorator of ts.canHaveDecorators(node) ? (ts.getDecorators(node) ?? []) : []) {
+        const customDecorator = getCustomDecorator(decorator);
+        if (!customDecorator) {
+          continue;
+        }
+        const { expression, semantics } = customDecorator;
+        edits.push({ start: expression.getStart(sourceFile), end: expression.end, text: semantics.decorator });
+
+        // declare the properties added by the class decorators, unless the classes declare them
+        if (ts.isClassDeclaration(node) && semantics.properties) {
+          const memberNames = new Set(node.members.flatMap((member) => (member.name ? [member.name.getText(sourceFile)] : [])));
+          const properties = Object.entries(semantics.properties)
+            .filter(([propertyName]) => !memberNames.has(propertyName))
+            .map(([propertyName, type]) => `\n  @Property()\n  ${propertyName}!: ${type};\n`);
+          edits.push({ start: node.end - 1, end: node.end - 1, text: properties.join("") });
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+    if (edits.length === 0) {
+      continue;
+    }
+
+    let transformedContent = content;
+    for (const { start, end, text } of edits.sort((a, b) => b.start - a.start)) {
+      transformedContent = transformedContent.slice(0, start) + text + transformedContent.slice(end);
+    }
+    transformedFiles.set(filePath, transformedContent);
+  }
+  return transformedFiles;
+}
@@ -0,0 +1,222 @@
+import * as ts from "typescript";
+
+/**
+ * Mikro-ORM relation decorators and the reference kind they declare.
+ * Embedded properties depend on their embeddables in the same way relations depend on their target entities.
+ */
+const relationDecorators = {
+  ManyToOne: "m:1",
+  OneToOne: "1:1",
+  OneToMany: "1:m",
+  ManyToMany: "m:n",
+  Embedded: "embedded",
+} as const;
+
+export type RelationKind = (typeof relationDecorators)[keyof typeof relationDecorators];
+
+/**
+ * The names imported from the Mikro-ORM modules by a source file
+ */
+interface DecoratorImports {
+  /** The imported names by local name, e.g. `Entity` for `import { Entity as OrmEntity }` */
+  names: Map<string, string>;
+  /** The local names of the namespace imports, e.g. `orm` for `import * as orm from "@mikro-orm/core"` */
+  namespaces: Set<string>;
+  /** The local names imported from the other modules, which are not Mikro-ORM decorators */
+  otherNames: Set<string>;
+}
+
+const decoratorImportsCache = new WeakMap<ts.SourceFile, DecoratorImports>();
+
+/**
+ * Whether a module is a Mikro-ORM module, e.g. `@mikro-orm/core` or `@mikro-orm/decorators/legacy`
+ */
+function isMikroOrmModule(moduleName: string): boolean {
+  return moduleName.startsWith("@mikro-orm/");
+}
+
+/**
+ * Collect the names imported from the Mikro-ORM modules by a source file
+ */
+function getDecoratorImports(sourceFile: ts.SourceFile): DecoratorImports {
+  let decoratorImports = decoratorImportsCache.get(sourceFile);
+  if (decoratorImports) {
+    return decoratorImports;
+  }
+  decoratorImports = { names: new Map(), namespaces: new Set(), otherNames: new Set() };
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) {
+      continue;
+    }
+    const isMikroOrmImport = isMikroOrmModule(statement.moduleSpecifier.text);
+    const { name, namedBindings } = statement.importClause ?? {};
+    if (name) {
+      decoratorImports.otherNames.add(name.text);
+    }
+    if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+      (isMikroOrmImport ? decoratorImports.namespaces : decoratorImports.otherNames).add(namedBindings.name.text);
+    }
+    for (const element of namedBindings && ts.isNamedImports(namedBindings) ? namedBindings.elements : []) {
+      if (isMikroOrmImport) {
+        decoratorImports.names.set(element.name.text, (element.propertyName ?? element.name).text);
+      } else {
+        decoratorImports.otherNames.add(element.name.text);
+      }
+    }
+  }
+  decoratorImportsCache.set(sourceFile, decoratorImports);
+  return decoratorImports;
+}
+
+/**
+ * Find the source file of a node, or of the original node of the nodes detached from their source file
+ */
+function findSourceFile(node: ts.Node): ts.SourceFile | undefined {
+  let current: ts.Node | undefined = node;
+  while (current && !ts.isSourceFile(current)) {
+    current = current.parent;
+  }
+  if (current) {
+    return current;
+  }
+  const originalNode = ts.getOriginalNode(node);
+  return originalNode !== node ? findSourceFile(originalNode) : undefined;
+}
+
+/**
+ * Get the name of the Mikro-ORM decorator of a decorator like `@Entity()`, `@Entity`, `@orm.Entity()`
+ * (with `import * as orm from "@mikro-orm/core"`) or `@OrmEntity()` (with `import { Entity as OrmEntity }`).
+ * The decorators which are not imported keep their name, e.g. in the classes generated from the EntitySchema definitions,
+ * and the decorators imported from the other modules have no Mikro-ORM name.
+ */
+export function getDecoratorName(decorator: ts.Decorator): string | undefined {
+  const expression = ts.isCallExpression(decorator.expression) ? decorator.expression.expression : decorator.expression;
+  const sourceFile = findSourceFile(decorator);
+  const decoratorImports = sourceFile && getDecoratorImports(sourceFile);
+  if (ts.isIdentifier(expression)) {
+    const importedName = decoratorImports?.names.get(expression.text);
+    return importedName ?? (decoratorImports?.otherNames.has(expression.text) ? undefined : expression.text);
+  }
+  if (
+    ts.isPropertyAccessExpression(expression) &&
+    ts.isIdentifier(expression.expression) &&
+    (!decoratorImports || decoratorImports.namespaces.has(expression.expression.text))
+  ) {
+    return expression.name.text;
+  }
+  return undefined;
+}
+
+/**
+ * Find a decorator like `@Name(...)` on a class or property, resolving the imported names of the Mikro-ORM decorators.
+ * The decorators without a call like `@Name` are returned as calls without arguments.
+ */
+export function findDecorator(node: ts.Node, name: string): ts.CallExpression | undefined {
+  if (!ts.canHaveDecorators(node)) {
+    return undefined;
+  }
+  for (const decorator of ts.getDecorators(node) ?? []) {
+    if (getDecoratorName(decorator) === name) {
+      return ts.isCallExpression(decorator.expression)
+        ? decorator.expression
+        : ts.factory.createCallExpression(decorator.expression, undefined, []);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether the class is an `@Entity()` or an `@Embeddable()`
+ */
+export function isEntityOrEmbeddable(node: ts.ClassDeclaration): boolean {
+  return findDecorator(node, "Entity") !== undefined || findDecorator(node, "Embeddable") !== undefined;
+}
+
+/**
+ * Find the relation decorator (`@ManyToOne`, `@OneToOne`, `@OneToMany`, `@ManyToMany` or `@Embedded`) of a property
+ */
+export function findRelationDecorator(
+  member: ts.ClassElement,
+): { decorator: ts.CallExpression; kind: RelationKind } | undefined {
+  for (const [name, kind] of Object.entries(relationDecorators)) {
+    const decorator = findDecorator(member, name);
+    if (decorator) {
+      return { decorator, kind };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get an option like `{ entity: () => Tag }` from the object literal arguments of a decorator call
+ */
+export function getDecoratorOption(decorator: ts.CallExpression, name: string): ts.Expression | undefined {
+  for (const arg of decorator.arguments) {
+    if (!ts.isObjectLiteralExpression(arg)) {
+      continue;
+    }
+    for (const property of arg.properties) {
+      if (
+        ts.isPropertyAssignment(property) &&
+        (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name)) &&
+        property.name.text === name
+      ) {
+        return property.initializer;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get an option like `{ nullable: true }` from any of the decorators of a property
+ */
+export function getPropertyOption(member: ts.Node, name: string): ts.Expression | undefined {
+  if (!ts.canHaveDecorators(member)) {
+    return undefined;
+  }
+  for (const decorator of ts.getDecorators(member) ?? []) {
+    if (ts.isCallExpression(decorator.expression)) {
+      const option = getDecoratorOption(decorator.expression, name);
+      if (option) {
+        return option;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the entity names from an entity reference expression like `() => User`, `User`, `"User"`,
+ * or `() => [Cat, Dog]` for polymorphic embeddables
+ */
+function getEntityNamesFromExpression(expression: ts.Expression): string[] {
+  if (ts.isStringLiteral(expression) || ts.isIdentifier(expression)) {
+    return [expression.text];
+  }
+  if (ts.isArrayLiteralExpression(expression)) {
+    return expression.elements.flatMap((element) => getEntityNamesFromExpression(element));
+  }
+  if (ts.isArrowFunction(expression) && !ts.isBlock(expression.body)) {
+    return getEntityNamesFromExpression(expression.body);
+  }
+  return [];
+}
+
+/**
+ * Get the target entities of a relation or embedded decorator.
+ * Supports the positional form `@ManyToMany(() => Tag, tag => tag.posts, { owner: true })`
+ * and the options form `@ManyToMany({ entity: () => Tag, pivotEntity: () => PostTag })`.
+ * The pivot entity is not the target of the relation; it is an entity of its own with its own relations.
+ */
+export function getRelationTargets(decorator: ts.CallExpression): string[] {
+  const firstArg = decorator.arguments[0];
+  if (!firstArg) {
+    return [];
+  }
+  if (ts.isObjectLiteralExpression(firstArg)) {
+    const entityOption = getDecoratorOption(decorator, "entity");
+    return entityOption ? getEntityNamesFromExpression(entityOption) : [];
+  }
+  return getEntityNamesFromExpression(firstArg);
+}
@@ -0,0 +1,178 @@
+/**
+ * A line of a diff, kept in both texts (" "), removed from the old text ("-") or added to the new text ("+")
+ */
+interface DiffLine {
+  type: " " | "-" | "+";
+  line: string;
+}
+
+/**
+ * The maximum number of cells of the longest common subsequence table,
+ * above which the changed lines are diffed as a single replacement
+ */
+const maxTableSize = 4_000_000;
+
+/**
+ * Split a text into lines. The last line of a text without a final newline keeps a "\n" suffix,
+ * so that it differs from the same line followed by a newline, like `\ No newline at end of file` in git diffs.
+ */
+function splitLines(text: string): string[] {
+  if (text === "") {
+    return [];
+  }
+  const lines = text.split("\n");
+  // ignore the empty line after the final newline
+  if (lines.at(-1) === "") {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += "\n";
+  }
+  return lines;
+}
+
+/**
+ * Diff the lines with their longest common subsequence, after skipping the common prefix and suffix
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefixLength = 0;
+  while (
+    prefixLength < oldLines.length &&
+    prefixLength < newLines.length &&
+    oldLines[prefixLength] === newLines[prefixLength]
+  ) {
+    prefixLength++;
+  }
+  let suffixLength = 0;
+  while (
+    suffixLength < oldLines.length - prefixLength &&
+    suffixLength < newLines.length - prefixLength &&
+    oldLines[oldLines.length - 1 - suffixLength] === newLines[newLines.length - 1 - suffixLength]
+  ) {
+    suffixLength++;
+  }
+
+  const oldMiddle = oldLines.slice(prefixLength, oldLines.length - suffixLength);
+  const newMiddle = newLines.slice(prefixLength, newLines.length - suffixLength);
+
+  const middle: DiffLine[] = [];
+  if ((oldMiddle.length + 1) * (newMiddle.length + 1) > maxTableSize) {
+    middle.push(
+      ...oldMiddle.map((line): DiffLine => ({ type: "-", line })),
+      ...newMiddle.map((line): DiffLine => ({ type: "+", line })),
+    );
+  } else {
+    // lengths[i][j] is the length of the longest common subsequence of oldMiddle[i:] and newMiddle[j:]
+    const lengths = Array.from({ length: oldMiddle.length + 1 }, () =>
+      new Uint32Array(newMiddle.length + 1),
+    );
+    for (let i = oldMiddle.length - 1; i >= 0; i--) {
+      for (let j = newMiddle.length - 1; j >= 0; j--) {
+        lengths[i]![j] =
+          oldMiddle[i] === newMiddle[j]
+            ? lengths[i + 1]![j + 1]! + 1
+            : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < oldMiddle.length || j < newMiddle.length) {
+      if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+        middle.push({ type: " ", line: oldMiddle[i]! });
+        i++;
+        j++;
+      } else if (i < oldMiddle.length && (j === newMiddle.length || lengths[i + 1]![j]! >= lengths[i]![j + 1]!)) {
+        // removed lines come before the added lines
+        middle.push({ type: "-", line: oldMiddle[i]! });
+        i++;
+      } else {
+        middle.push({ type: "+", line: newMiddle[j]! });
+        j++;
+      }
+    }
+  }
+
+  return [
+    ...oldLines.slice(0, prefixLength).map((line): DiffLine => ({ type: " ", line })),
+    ...middle,
+    ...oldLines.slice(oldLines.length - suffixLength).map((line): DiffLine => ({ type: " ", line })),
+  ];
+}
+
+/**
+ * Create a unified diff between two texts, with 3 lines of context around the changes by default.
+ * Returns an empty string when the texts are equal.
+ * @param oldText - The old text, e.g. the content of the existing file.
+ * @param newText - The new text, e.g. the generated code.
+ * @param oldName - The name of the old text in the header.
+ * @param newName - The name of the new text in the header.
+ * @param context - The number of unchanged lines around the changes.
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldName: string,
+  newName: string,
+  context = 3,
+): string {
+  if (oldText === newText) {
+    return "";
+  }
+  const lines = diffLines(splitLines(oldText), splitLines(newText));
+
+  // group the changed lines with their context into hunks
+  const output = [`--- ${oldName}`, `+++ ${newName}`];
+  let index = 0;
+  let oldLine = 1;
+  let newLine = 1;
+  while (index < lines.length) {
+    let firstChange = index;
+    while (firstChange < lines.length && lines[firstChange]!.type === " ") {
+      firstChange++;
+    }
+    if (firstChange === lines.length) {
+      break;
+    }
+
+    // extend the hunk while the next change is within twice the context
+    let end = firstChange;
+    let unchanged = 0;
+    for (let lineIndex = firstChange; lineIndex < lines.length; lineIndex++) {
+      if (lines[lineIndex]!.type === " ") {
+        unchanged++;
+        if (unchanged > 2 * context) {
+          break;
+        }
+      } else {
+        unchanged = 0;
+        end = lineIndex;
+      }
+    }
+
+    const start = Math.max(index, firstChange - context);
+    const hunkEnd = Math.min(lines.length - 1, end + context);
+
+    // count the lines before the hunk
+    for (const line of lines.slice(index, start)) {
+      oldLine += line.type !== "+" ? 1 : 0;
+      newLine += line.type !== "-" ? 1 : 0;
+    }
+
+    const hunk = lines.slice(start, hunkEnd + 1);
+    const oldCount = hunk.filter((line) => line.type !== "+").length;
+    const newCount = hunk.filter((line) => line.type !== "-").length;
+    output.push(
+      `@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`,
+      ...hunk.flatMap((line) =>
+        line.line.endsWith("\n")
+          ? [`${line.type}${line.line.slice(0, -1)}`, "\\ No newline at end of file"]
+          : [`${line.type}${line.line}`],
+      ),
+    );
+
+    oldLine += oldCount;
+    newLine += newCount;
+    index = hunkEnd + 1;
+  }
+
+  return `${output.join("\n")}\n`;
+}
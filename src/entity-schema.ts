@@ -0,0 +1,816 @@
+import * as ts from "typescript";
+import { detachNode } from "./inheritance.js";
+
+/**
+ * The reference kinds of Mikro-ORM, as `kind: "m:1"` or `kind: ReferenceKind.MANY_TO_ONE`, and their decorators
+ */
+const referenceKindDecorators: Record<string, string> = {
+  "m:1": "ManyToOne",
+  "1:1": "OneToOne",
+  "1:m": "OneToMany",
+  "m:n": "ManyToMany",
+  embedded: "Embedded",
+  MANY_TO_ONE: "ManyToOne",
+  ONE_TO_ONE: "OneToOne",
+  ONE_TO_MANY: "OneToMany",
+  MANY_TO_MANY: "ManyToMany",
+  EMBEDDED: "Embedded",
+};
+
+/**
+ * The relation builders of `defineEntity`, e.g. `p.manyToOne(Author)`
+ */
+const relationBuilders: Record<string, string> = {
+  manyToOne: "m:1",
+  oneToOne: "1:1",
+  oneToMany: "1:m",
+  manyToMany: "m:n",
+  embedded: "embedded",
+};
+
+/**
+ * The options of EntitySchema and defineEntity which are not options of the `@Entity()` decorator
+ */
+const nonDecoratorEntityOptions = new Set([
+  "name",
+  "class",
+  "properties",
+  "extends",
+  "embeddable",
+  "hooks",
+  "indexes",
+  "uniques",
+  "repository",
+]);
+
+/**
+ * The TypeScript types of the Mikro-ORM scalar types, e.g. `type: "integer"` or `p.integer()`.
+ * Like Mikro-ORM, decimals, bigints and dates without time are mapped to strings.
+ */
+const scalarTypes: Record<string, string> = {
+  string: "string",
+  text: "string",
+  uuid: "string",
+  varchar: "string",
+  char: "string",
+  character: "string",
+  "character varying": "string",
+  tinytext: "string",
+  mediumtext: "string",
+  longtext: "string",
+  time: "string",
+  interval: "string",
+  date: "string",
+  decimal: "string",
+  numeric: "string",
+  bigint: "string",
+  number: "number",
+  integer: "number",
+  int: "number",
+  smallint: "number",
+  tinyint: "number",
+  mediumint: "number",
+  float: "number",
+  double: "number",
+  "double precision": "number",
+  real: "number",
+  boolean: "boolean",
+  bool: "boolean",
+  datetime: "Date",
+  timestamp: "Date",
+  timestamptz: "Date",
+  blob: "Uint8Array",
+  uint8array: "Uint8Array",
+  buffer: "Uint8Array",
+};
+
+/**
+ * An entity defined with `new EntitySchema({ ... })` or `defineEntity({ ... })`
+ */
+interface EntitySchemaDefinition {
+  /** The call or new expression */
+  node: ts.CallExpression | ts.NewExpression;
+  /** The options object */
+  options: ts.ObjectLiteralExpression;
+  sourceFile: ts.SourceFile;
+  /** The name of the entity, from the `name` or `class` option */
+  entityName: string;
+  /** The name of the variable the definition is assigned to */
+  variableName: string | undefined;
+  /** The name of the class or interface declaring the property types, from the `class` option or the type argument */
+  typeName: string | undefined;
+}
+
+/**
+ * The declarations of the classes and interfaces of the entity files by name
+ */
+type TypeDeclarations = Map<
+  string,
+  ts.ClassDeclaration | ts.InterfaceDeclaration
+>;
+
+function getPropertyNameText(name: ts.PropertyName): string | undefined {
+  return ts.isIdentifier(name) || ts.isStringLiteral(name)
+    ? name.text
+    : undefined;
+}
+
+/**
+ * Get the options of an object literal by name
+ */
+function getObjectOptions(
+  object: ts.ObjectLiteralExpression,
+): Map<string, ts.Expression> {
+  const options = new Map<string, ts.Expression>();
+  for (const property of object.properties) {
+    const name = property.name && getPropertyNameText(property.name);
+    if (ts.isPropertyAssignment(property) && name !== undefined) {
+      options.set(name, property.initializer);
+    } else if (ts.isMethodDeclaration(property) && name !== undefined) {
+      options.set(name, ts.factory.createTrue());
+    }
+  }
+  return options;
+}
+
+/**
+ * Unwrap the parentheses and the arrow functions without parameters returning an expression, e.g. `() => ({ ... })`
+ */
+function unwrapExpression(expression: ts.Expression): ts.Expression {
+  while (true) {
+    if (
+      ts.isParenthesizedExpression(expression) ||
+      ts.isAsExpression(expression) ||
+      ts.isSatisfiesExpression(expression)
+    ) {
+      expression = expression.expression;
+    } else if (ts.isArrowFunction(expression) && !ts.isBlock(expression.body)) {
+      expression = expression.body;
+    } else if (
+      ts.isArrowFunction(expression) ||
+      ts.isFunctionExpression(expression)
+    ) {
+      const returnStatement = ts.isBlock(expression.body)
+        ? expression.body.statements.find(ts.isReturnStatement)
+        : undefined;
+      if (!returnStatement?.expression) {
+        return expression;
+      }
+      expression = returnStatement.expression;
+    } else {
+      return expression;
+    }
+  }
+}
+
+/**
+ * Get the EntitySchema or defineEntity definition of a node, if any
+ */
+function getEntitySchemaDefinition(
+  node: ts.Node,
+  sourceFile: ts.SourceFile,
+): EntitySchemaDefinition | undefined {
+  let typeName: string | undefined;
+  if (
+    ts.isNewExpression(node) &&
+    (ts.isIdentifier(node.expression) ||
+      ts.isPropertyAccessExpression(node.expression)) &&
+    (ts.isIdentifier(node.expression)
+      ? node.expression.text
+      : node.expression.name.text) === "EntitySchema"
+  ) {
+    const typeArgument = node.typeArguments?.[0];
+    if (
+      typeArgument &&
+      ts.isTypeReferenceNode(typeArgument) &&
+      ts.isIdentifier(typeArgument.typeName)
+    ) {
+      typeName = typeArgument.typeName.text;
+    }
+  } else if (
+    !(
+      ts.isCallExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      node.expression.text === "defineEntity"
+    )
+  ) {
+    return undefined;
+  }
+
+  const options = node.arguments?.[0];
+  if (!options || !ts.isObjectLiteralExpression(options)) {
+    return undefined;
+  }
+  const entityOptions = getObjectOptions(options);
+  const nameOption = entityOptions.get("name");
+  const classOption = entityOptions.get("class");
+  let entityName: string | undefined;
+  if (classOption && ts.isIdentifier(classOption)) {
+    typeName = classOption.text;
+    entityName = classOption.text;
+  }
+  if (nameOption && ts.isStringLiteralLike(nameOption)) {
+    entityName = nameOption.text;
+  }
+  if (!entityName) {
+    return undefined;
+  }
+
+  const variableName =
+    ts.isVariableDeclaration(node.parent) && ts.isIdentifier(node.parent.name)
+      ? node.parent.name.text
+      : undefined;
+  return { node, options, sourceFile, entityName, variableName, typeName };
+}
+
+/**
+ * Get the entity names of a reference like `"Author"`, `Author`, `() => Author`, `AuthorSchema` or `() => [Cat, Dog]`
+ */
+function getReferencedEntityNames(
+  expression: ts.Expression,
+  variableEntityNames: Map<string, string>,
+): string[] {
+  const unwrapped = unwrapExpression(expression);
+  if (ts.isStringLiteralLike(unwrapped)) {
+    return [unwrapped.text];
+  }
+  if (ts.isIdentifier(unwrapped)) {
+    return [variableEntityNames.get(unwrapped.text) ?? unwrapped.text];
+  }
+  if (ts.isArrayLiteralExpression(unwrapped)) {
+    return unwrapped.elements.flatMap((element) =>
+      getReferencedEntityNames(element, variableEntityNames),
+    );
+  }
+  return [];
+}
+
+/**
+ * Get the name of a Mikro-ORM type option like `"integer"`, `IntegerType`, `new IntegerType()`, `types.integer` or `Date`
+ */
+function getTypeOptionName(expression: ts.Expression): string | undefined {
+  if (ts.isNewExpression(expression)) {
+    expression = expression.expression;
+  }
+  if (ts.isStringLiteralLike(expression)) {
+    return expression.text;
+  }
+  if (ts.isIdentifier(expression)) {
+    return ["String", "Number", "Boolean", "Date", "Buffer"].includes(
+      expression.text,
+    )
+      ? expression.text === "Date"
+        ? "Date"
+        : expression.text.toLowerCase()
+      : expression.text.replace(/Type$/, "").toLowerCase();
+  }
+  if (ts.isPropertyAccessExpression(expression)) {
+    return expression.name.text.toLowerCase();
+  }
+  return undefined;
+}
+
+/**
+ * Create the TypeScript type of a Mikro-ORM scalar type name, e.g. `number` for `"integer"` or `string[]` for `"string[]"`
+ */
+function createScalarTypeNode(typeName: string): ts.TypeNode | undefined {
+  if (typeName.endsWith("[]")) {
+    const elementType = createScalarTypeNode(typeName.slice(0, -2));
+    return elementType && ts.factory.createArrayTypeNode(elementType);
+  }
+  // `Date` is a datetime, while `date` is a date without time
+  const scalarType =
+    typeName === "Date" ? "Date" : scalarTypes[typeName.toLowerCase()];
+  switch (scalarType) {
+    case undefined:
+      return undefined;
+    case "string":
+      return ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword);
+    case "number":
+      return ts.factory.createKeywordTypeNode(ts.SyntaxKind.NumberKeyword);
+    case "boolean":
+      return ts.factory.createKeywordTypeNode(ts.SyntaxKind.BooleanKeyword);
+    default:
+      return ts.factory.createTypeReferenceNode(scalarType);
+  }
+}
+
+/**
+ * Create the type of enum items like `() => UserRole`, `UserRole` or `["admin", "user"]`
+ */
+function createEnumTypeNode(items: ts.Expression): ts.TypeNode | undefined {
+  const unwrapped = unwrapExpression(items);
+  if (ts.isIdentifier(unwrapped)) {
+    return ts.factory.createTypeReferenceNode(unwrapped.text);
+  }
+  if (ts.isArrayLiteralExpression(unwrapped)) {
+    const literalTypes = unwrapped.elements.flatMap((element) =>
+      ts.isStringLiteralLike(element)
+        ? [
+            ts.factory.createLiteralTypeNode(
+              ts.factory.createStringLiteral(element.text),
+            ),
+          ]
+        : ts.isNumericLiteral(element)
+          ? [
+              ts.factory.createLiteralTypeNode(
+                ts.factory.createNumericLiteral(element.text),
+              ),
+            ]
+          : [],
+    );
+    return literalTypes.length > 0
+      ? ts.factory.createUnionTypeNode(literalTypes)
+      : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Get the options of a `defineEntity` property builder chain like `p.string().length(255).nullable()`,
+ * e.g. `{ type: "string", length: 255, nullable: true }`, and the type given with `.$type<T>()` or `p.json<T>()`
+ */
+function getBuilderOptions(
+  expression: ts.Expression,
+):
+  | { options: Map<string, ts.Expression>; type: ts.TypeNode | undefined }
+  | undefined {
+  const calls: ts.CallExpression[] = [];
+  let current = unwrapExpression(expression);
+  while (
+    ts.isCallExpression(current) &&
+    ts.isPropertyAccessExpression(current.expression)
+  ) {
+    calls.unshift(current);
+    current = current.expression.expression;
+  }
+  const [builder, ...modifiers] = calls;
+  if (!builder || !ts.isIdentifier(current)) {
+    return undefined;
+  }
+
+  const options = new Map<string, ts.Expression>();
+  let type: ts.TypeNode | undefined;
+  const builderName = (builder.expression as ts.PropertyAccessExpression).name
+    .text;
+  const [firstArgument] = builder.arguments;
+  const relationKind = relationBuilders[builderName];
+  if (relationKind) {
+    options.set("kind", ts.factory.createStringLiteral(relationKind));
+    if (firstArgument) {
+      options.set("entity", firstArgument);
+    }
+  } else if (builderName === "enum") {
+    options.set("enum", ts.factory.createTrue());
+    if (firstArgument) {
+      options.set("items", firstArgument);
+    }
+  } else if (builderName === "type" || builderName === "formula") {
+    if (firstArgument) {
+      options.set(builderName, firstArgument);
+    }
+  } else {
+    options.set("type", ts.factory.createStringLiteral(builderName));
+    type = builder.typeArguments?.[0];
+  }
+
+  for (const modifier of modifiers) {
+    const modifierName = (modifier.expression as ts.PropertyAccessExpression)
+      .name.text;
+    if (modifierName === "$type") {
+      type = modifier.typeArguments?.[0];
+    } else {
+      options.set(
+        modifierName,
+        modifier.arguments[0] ?? ts.factory.createTrue(),
+      );
+    }
+  }
+  return { options, type };
+}
+
+/**
+ * Create the type of a relation to the given entities, like the types of the decorated entities,
+ * e.g. `Author`, `Collection<Book>` or `Address[]` for an embedded array
+ */
+function createRelationTypeNode(
+  relationDecorator: string,
+  entityNames: string[],
+  isArray: boolean,
+): ts.TypeNode | undefined {
+  if (entityNames.length === 0) {
+    return undefined;
+  }
+  const entityType =
+    entityNames.length === 1
+      ? ts.factory.createTypeReferenceNode(entityNames[0]!)
+      : ts.factory.createUnionTypeNode(
+          entityNames.map((entityName) =>
+            ts.factory.createTypeReferenceNode(entityName),
+          ),
+        );
+  if (relationDecorator === "OneToMany" || relationDecorator === "ManyToMany") {
+    return ts.factory.createTypeReferenceNode("Collection", [entityType]);
+  }
+  if (relationDecorator === "Embedded" && isArray) {
+    return ts.factory.createArrayTypeNode(
+      ts.isUnionTypeNode(entityType)
+        ? ts.factory.createParenthesizedType(entityType)
+        : entityType,
+    );
+  }
+  return entityType;
+}
+
+/**
+ * Create the decorated property declaration of an EntitySchema or defineEntity property, e.g.
+ * `@ManyToOne({ entity: "Author", nullable: true }) author?: Author`
+ */
+function createEntityPropertyDeclaration(
+  propertyName: string,
+  options: Map<string, ts.Expression>,
+  builderType: ts.TypeNode | undefined,
+  declaredMember: ts.PropertyDeclaration | ts.PropertySignature | undefined,
+  variableEntityNames: Map<string, string>,
+): ts.PropertyDeclaration {
+  const kindOption = options.get("kind") ?? options.get("reference");
+  // the kind is a string like `"m:1"` or a member of the ReferenceKind enum like `ReferenceKind.MANY_TO_ONE`
+  let kind: string | undefined;
+  if (kindOption && ts.isStringLiteralLike(kindOption)) {
+    kind = kindOption.text;
+  } else if (kindOption && ts.isPropertyAccessExpression(kindOption)) {
+    kind = kindOption.name.text;
+  }
+  const relationDecorator =
+    kind === undefined ? undefined : referenceKindDecorators[kind];
+  const isTrue = (name: string) =>
+    options.get(name)?.kind === ts.SyntaxKind.TrueKeyword;
+
+  const decoratorOptions = new Map(options);
+  decoratorOptions.delete("kind");
+  decoratorOptions.delete("reference");
+
+  let decoratorName = "Property";
+  let type: ts.TypeNode | undefined = builderType ?? declaredMember?.type;
+  if (relationDecorator) {
+    decoratorName = relationDecorator;
+    // the relation target is the entity name, as the variables of the definitions are not classes
+    const target = options.get("entity") ?? options.get("type");
+    const entityNames = target
+      ? getReferencedEntityNames(target, variableEntityNames)
+      : [];
+    decoratorOptions.delete("type");
+    decoratorOptions.set(
+      "entity",
+      entityNames.length === 1
+        ? ts.factory.createStringLiteral(entityNames[0]!)
+        : ts.factory.createArrayLiteralExpression(
+            entityNames.map((entityName) =>
+              ts.factory.createStringLiteral(entityName),
+            ),
+          ),
+    );
+    // the declared types reference the interfaces of the entities (e.g. `author: IAuthor`), which are removed
+    type = createRelationTypeNode(
+      relationDecorator,
+      entityNames,
+      isTrue("array"),
+    );
+  } else if (isTrue("enum") || options.has("items")) {
+    decoratorName = "Enum";
+    const items = options.get("items");
+    type ??= items && createEnumTypeNode(items);
+    if (type && isTrue("array")) {
+      type = ts.factory.createArrayTypeNode(type);
+    }
+  } else if (options.has("formula")) {
+    decoratorName = "Formula";
+  } else if (isTrue("primary")) {
+    decoratorName = "PrimaryKey";
+  }
+
+  if (!type && !relationDecorator) {
+    const typeOption = options.get("type") ?? options.get("columnType");
+    const typeName = typeOption && getTypeOptionName(typeOption);
+    type = typeName === undefined ? undefined : createScalarTypeNode(typeName);
+  }
+
+  // the formula is the first argument of the Formula decorator
+  const formula = decoratorOptions.get("formula");
+  decoratorOptions.delete("formula");
+  const decoratorArguments = [
+    ...(decoratorName === "Formula" && formula ? [formula] : []),
+    ts.factory.createObjectLiteralExpression(
+      Array.from(decoratorOptions, ([name, value]) =>
+        ts.factory.createPropertyAssignment(
+          /^[A-Za-z_$][\w$]*$/.test(name)
+            ? name
+            : ts.factory.createStringLiteral(name),
+          value,
+        ),
+      ),
+    ),
+  ];
+
+  const optional = declaredMember
+    ? declaredMember.questionToken !== undefined
+    : isTrue("nullable");
+  return ts.factory.createPropertyDeclaration(
+    [
+      ts.factory.createDecorator(
+        ts.factory.createCallExpression(
+          ts.factory.createIdentifier(decoratorName),
+          undefined,
+          decoratorArguments,
+        ),
+      ),
+    ],
+    propertyName,
+    optional ? ts.factory.createToken(ts.SyntaxKind.QuestionToken) : undefined,
+    type,
+    undefined,
+  );
+}
+
+/**
+ * Create the decorated class declaration of an EntitySchema or defineEntity definition
+ */
+function createEntityClassDeclaration(
+  definition: EntitySchemaDefinition,
+  typeDeclarations: TypeDeclarations,
+  variableEntityNames: Map<string, string>,
+): ts.ClassDeclaration {
+  const entityOptions = getObjectOptions(definition.options);
+
+  // the property types of the class or interface of the entity, which might be declared in another file
+  const typeDeclaration =
+    definition.typeName === undefined
+      ? undefined
+      : typeDeclarations.get(definition.typeName);
+  const getDeclaredMember = (propertyName: string) => {
+    const member = typeDeclaration?.members.find(
+      (member): member is ts.PropertyDeclaration | ts.PropertySignature =>
+        (ts.isPropertyDeclaration(member) || ts.isPropertySignature(member)) &&
+        member.name !== undefined &&
+        getPropertyNameText(member.name) === propertyName,
+    );
+    if (!member?.type || member.getSourceFile() === definition.sourceFile) {
+      return member;
+    }
+    return ts.factory.createPropertySignature(
+      undefined,
+      propertyName,
+      member.questionToken,
+      detachNode(member.type),
+    );
+  };
+
+  const members: ts.PropertyDeclaration[] = [];
+  const propertiesOption = entityOptions.get("properties");
+  const properties = propertiesOption && unwrapExpression(propertiesOption);
+  if (properties && ts.isObjectLiteralExpression(properties)) {
+    for (const property of properties.properties) {
+      const propertyName = property.name && getPropertyNameText(property.name);
+      if (!ts.isPropertyAssignment(property) || propertyName === undefined) {
+        continue;
+      }
+      const value = unwrapExpression(property.initializer);
+      const { options, type } = ts.isObjectLiteralExpression(value)
+        ? { options: getObjectOptions(value), type: undefined }
+        : (getBuilderOptions(value) ?? {
+            options: new Map<string, ts.Expression>(),
+            type: undefined,
+          });
+      members.push(
+        createEntityPropertyDeclaration(
+          propertyName,
+          options,
+          type,
+          getDeclaredMember(propertyName),
+          variableEntityNames,
+        ),
+      );
+    }
+  }
+
+  // the other options are the options of the entity decorator (e.g. `abstract` and `discriminatorColumn`)
+  const decoratorOptions = Array.from(entityOptions)
+    .filter(([name]) => !nonDecoratorEntityOptions.has(name))
+    .map(([name, value]) => ts.factory.createPropertyAssignment(name, value));
+  const isEmbeddable =
+    entityOptions.get("embeddable")?.kind === ts.SyntaxKind.TrueKeyword;
+  const decorator = ts.factory.createDecorator(
+    ts.factory.createCallExpression(
+      ts.factory.createIdentifier(isEmbeddable ? "Embeddable" : "Entity"),
+      undefined,
+      decoratorOptions.length > 0
+        ? [ts.factory.createObjectLiteralExpression(decoratorOptions)]
+        : [],
+    ),
+  );
+
+  const extendsOption = entityOptions.get("extends");
+  const [baseName] = extendsOption
+    ? getReferencedEntityNames(extendsOption, variableEntityNames)
+    : [];
+  const heritageClauses = baseName
+    ? [
+        ts.factory.createHeritageClause(ts.SyntaxKind.ExtendsKeyword, [
+          ts.factory.createExpressionWithTypeArguments(
+            ts.factory.createIdentifier(baseName),
+            undefined,
+          ),
+        ]),
+      ]
+    : undefined;
+
+  return ts.factory.createClassDeclaration(
+    [decorator, ts.factory.createModifier(ts.SyntaxKind.ExportKeyword)],
+    definition.entityName,
+    undefined,
+    heritageClauses,
+    members,
+  );
+}
+
+/**
+ * Get the leftmost identifier of a name like `User.infer`
+ */
+function getLeftmostIdentifier(name: ts.EntityName): ts.Identifier {
+  return ts.isIdentifier(name) ? name : getLeftmostIdentifier(name.left);
+}
+
+/**
+ * Whether a type alias is inferred from an entity definition, e.g. `type IUser = InferEntity<typeof User>` or
+ * `type IUser = typeof User.infer`. The other type aliases, e.g. `type Role = (typeof Role)[keyof typeof Role]`, are kept.
+ */
+function isInferredEntityType(
+  node: ts.TypeAliasDeclaration,
+  definitionVariableNames: Set<string>,
+): boolean {
+  let inferred = false;
+  const visit = (child: ts.Node) => {
+    if (
+      (ts.isTypeReferenceNode(child) &&
+        ts.isIdentifier(child.typeName) &&
+        child.typeName.text === "InferEntity") ||
+      (ts.isTypeQueryNode(child) &&
+        definitionVariableNames.has(getLeftmostIdentifier(child.exprName).text))
+    ) {
+      inferred = true;
+    } else {
+      ts.forEachChild(child, visit);
+    }
+  };
+  visit(node.type);
+  return inferred;
+}
+
+/**
+ * Convert the entities defined with `new EntitySchema({ ... })` or `defineEntity({ ... })` to decorated entity classes,
+ * so they are processed like the entities declared with decorators:
+ * - the `type`, `kind`/`reference`, `entity`, `primary`, `enum`/`items` and `formula` options (or the builders
+ *   like `p.string()` and `p.manyToOne(Author)`) select the decorator and the type of each property
+ * - the other options (e.g. `nullable`, `length` and `hidden`) are the options of the decorator
+ * - the property types of the class or interface given with `class: User` or `EntitySchema<IUser>` are used if declared
+ * The definitions, the classes and interfaces they replace, and the type aliases inferred from the definitions
+ * (e.g. `InferEntity<typeof User>`) are removed.
+ * @param files - The contents of the entity files by path.
+ * @returns The contents of the entity files, unchanged for the files without definitions.
+ */
+export function transformEntitySchemas(
+  files: Map<string, string>,
+): Map<string, string> {
+  const sourceFiles = new Map<string, ts.SourceFile>();
+  const definitions: EntitySchemaDefinition[] = [];
+  const typeDeclarations: TypeDeclarations = new Map();
+
+  for (const [filePath, content] of files) {
+    // skip the files which cannot contain definitions
+    if (
+      !content.includes("EntitySchema") &&
+      !content.includes("defineEntity")
+    ) {
+      continue;
+    }
+    const sourceFile = ts.createSourceFile(
+      filePath,
+      content,
+      ts.ScriptTarget.Latest,
+      true,
+    );
+    sourceFiles.set(filePath, sourceFile);
+    const visit = (node: ts.Node): void => {
+      const definition = getEntitySchemaDefinition(node, sourceFile);
+      if (definition) {
+        definitions.push(definition);
+      } else {
+        ts.forEachChild(node, visit);
+      }
+    };
+    visit(sourceFile);
+  }
+  if (definitions.length === 0) {
+    return files;
+  }
+
+  // the classes and interfaces declaring the property types might be in the other files
+  const entityNames = new Set(
+    definitions.map((definition) => definition.entityName),
+  );
+  const typeNames = new Set(
+    definitions.flatMap((definition) => definition.typeName ?? []),
+  );
+  for (const [filePath, content] of files) {
+    if (
+      ![...entityNames, ...typeNames].some((name) => content.includes(name))
+    ) {
+      continue;
+    }
+    const sourceFile =
+      sourceFiles.get(filePath) ??
+      ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
+    sourceFiles.set(filePath, sourceFile);
+    for (const statement of sourceFile.statements) {
+      if (
+        (ts.isClassDeclaration(statement) ||
+          ts.isInterfaceDeclaration(statement)) &&
+        statement.name &&
+        typeNames.has(statement.name.text)
+      ) {
+        typeDeclarations.set(statement.name.text, statement);
+      }
+    }
+  }
+
+  const variableEntityNames = new Map(
+    definitions.flatMap((definition) =>
+      definition.variableName === undefined
+        ? []
+        : [[definition.variableName, definition.entityName] as const],
+    ),
+  );
+
+  const definitionVariableNames = new Set(variableEntityNames.keys());
+
+  const transformedFiles = new Map(files);
+  for (const [filePath, sourceFile] of sourceFiles) {
+    // remove the definitions, the classes and interfaces replaced by the entity classes, and the inferred types
+    const removedNodes: ts.Node[] = [];
+    for (const statement of sourceFile.statements) {
+      if (
+        ((ts.isClassDeclaration(statement) &&
+          !ts.getDecorators(statement)?.length) ||
+          ts.isInterfaceDeclaration(statement)) &&
+        statement.name &&
+        (entityNames.has(statement.name.text) ||
+          typeNames.has(statement.name.text))
+      ) {
+        removedNodes.push(statement);
+      } else if (
+        ts.isTypeAliasDeclaration(statement) &&
+        isInferredEntityType(statement, definitionVariableNames)
+      ) {
+        removedNodes.push(statement);
+      } else if (
+        ts.isVariableStatement(statement) &&
+        definitions.some(
+          (definition) =>
+            definition.sourceFile === sourceFile &&
+            statement.pos <= definition.node.pos &&
+            definition.node.end <= statement.end,
+        )
+      ) {
+        removedNodes.push(statement);
+      }
+    }
+
+    const fileDefinitions = definitions.filter(
+      (definition) => definition.sourceFile === sourceFile,
+    );
+    if (removedNodes.length === 0 && fileDefinitions.length === 0) {
+      continue;
+    }
+
+    let content = sourceFile.text;
+    for (const node of removedNodes.reverse()) {
+      content =
+        content.slice(0, node.getStart(sourceFile)) + content.slice(node.end);
+    }
+
+    const printer = ts.createPrinter();
+    const classes = fileDefinitions.map((definition) =>
+      printer.printNode(
+        ts.EmitHint.Unspecified,
+        createEntityClassDeclaration(
+          definition,
+          typeDeclarations,
+          variableEntityNames,
+        ),
+        sourceFile,
+      ),
+    );
+    transformedFiles.set(filePath, [content, ...classes].join("\n\n"));
+  }
+  return transformedFiles;
+}
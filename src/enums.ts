@@ -0,0 +1,207 @@
+import * as ts from "typescript";
+import { findDecorator, getDecoratorOption } from "./decorators.js";
+
+/**
+ * The literal unions of the `as const` objects used as enums by object name, e.g. `"admin" | "member"` for
+ * `const Role = { Admin: "admin", Member: "member" } as const`
+ */
+export type ConstEnums = Map<string, ts.TypeNode>;
+
+/**
+ * Unwrap the parentheses, the `as`/`satisfies` expressions and the arrow functions like `() => Role`
+ */
+function unwrapEnumExpression(expression: ts.Expression): ts.Expression {
+  while (
+    ts.isParenthesizedExpression(expression) ||
+    ts.isAsExpression(expression) ||
+    ts.isSatisfiesExpression(expression) ||
+    (ts.isArrowFunction(expression) && !ts.isBlock(expression.body))
+  ) {
+    expression = ts.isArrowFunction(expression) ? (expression.body as ts.Expression) : expression.expression;
+  }
+  return expression;
+}
+
+/**
+ * Create the literal type of an enum value like `"admin"`, `1` or `-1`, or undefined for the other expressions
+ */
+function createLiteralType(expression: ts.Expression): ts.LiteralTypeNode | undefined {
+  if (ts.isStringLiteralLike(expression)) {
+    return ts.factory.createLiteralTypeNode(ts.factory.createStringLiteral(expression.text));
+  }
+  if (ts.isNumericLiteral(expression)) {
+    return ts.factory.createLiteralTypeNode(ts.factory.createNumericLiteral(expression.text));
+  }
+  if (
+    ts.isPrefixUnaryExpression(expression) &&
+    expression.operator === ts.SyntaxKind.MinusToken &&
+    ts.isNumericLiteral(expression.operand)
+  ) {
+    return ts.factory.createLiteralTypeNode(
+      ts.factory.createPrefixUnaryExpression(
+        ts.SyntaxKind.MinusToken,
+        ts.factory.createNumericLiteral(expression.operand.text),
+      ),
+    );
+  }
+  return undefined;
+}
+
+/**
+ * Create the union of the literal types of enum values, or undefined unless all the values are literals
+ */
+function createLiteralUnionType(values: readonly ts.Expression[]): ts.TypeNode | undefined {
+  const literalTypes = values.map(createLiteralType);
+  if (literalTypes.length === 0 || literalTypes.some((literalType) => literalType === undefined)) {
+    return undefined;
+  }
+  return literalTypes.length === 1 ? literalTypes[0] : ts.factory.createUnionTypeNode(literalTypes as ts.TypeNode[]);
+}
+
+/**
+ * Get the literal union of an `as const` object with literal values, e.g. `{ Admin: "admin" } as const`
+ */
+function getConstEnumType(initializer: ts.Expression): ts.TypeNode | undefined {
+  while (ts.isParenthesizedExpression(initializer) || ts.isSatisfiesExpression(initializer)) {
+    initializer = initializer.expression;
+  }
+  if (
+    !ts.isAsExpression(initializer) ||
+    !ts.isTypeReferenceNode(initializer.type) ||
+    !ts.isIdentifier(initializer.type.typeName) ||
+    initializer.type.typeName.text !== "const"
+  ) {
+    return undefined;
+  }
+  const object = unwrapEnumExpression(initializer.expression);
+  if (!ts.isObjectLiteralExpression(object)) {
+    return undefined;
+  }
+  const values: ts.Expression[] = [];
+  for (const property of object.properties) {
+    if (!ts.isPropertyAssignment(property)) {
+      return undefined;
+    }
+    values.push(unwrapEnumExpression(property.initializer));
+  }
+  return createLiteralUnionType(values);
+}
+
+/**
+ * Collect the `as const` objects with literal values declared with `const`, which are used as enums
+ */
+export function collectConstEnums(node: ts.Node, constEnums: ConstEnums = new Map()): ConstEnums {
+  if (ts.isVariableDeclarationList(node) && node.flags & ts.NodeFlags.Const) {
+    for (const declaration of node.declarations) {
+      const constEnumType = declaration.initializer && getConstEnumType(declaration.initializer);
+      if (constEnumType && ts.isIdentifier(declaration.name)) {
+        constEnums.set(declaration.name.text, constEnumType);
+      }
+    }
+  }
+  ts.forEachChild(node, (childNode) => {
+    collectConstEnums(childNode, constEnums);
+  });
+  return constEnums;
+}
+
+/**
+ * Whether a variable statement only declares `as const` objects used as enums, which are replaced by their types
+ */
+export function isConstEnumStatement(node: ts.VariableStatement, constEnums: ConstEnums): boolean {
+  return node.declarationList.declarations.every(
+    (declaration) => ts.isIdentifier(declaration.name) && constEnums.has(declaration.name.text),
+  );
+}
+
+/**
+ * Get the object name of the value types of an `as const` object, e.g. `Role` for `(typeof Role)[keyof typeof Role]`
+ */
+export function getConstEnumValueTypeName(type: ts.TypeNode, constEnums: ConstEnums): string | undefined {
+  const unwrapType = (typeNode: ts.TypeNode) =>
+    ts.isParenthesizedTypeNode(typeNode) ? typeNode.type : typeNode;
+  if (!ts.isIndexedAccessTypeNode(type)) {
+    return undefined;
+  }
+  const objectType = unwrapType(type.objectType);
+  const indexType = unwrapType(type.indexType);
+  if (
+    !ts.isTypeQueryNode(objectType) ||
+    !ts.isIdentifier(objectType.exprName) ||
+    !ts.isTypeOperatorNode(indexType) ||
+    indexType.operator !== ts.SyntaxKind.KeyOfKeyword
+  ) {
+    return undefined;
+  }
+  const keyedType = unwrapType(indexType.type);
+  const name = objectType.exprName.text;
+  return ts.isTypeQueryNode(keyedType) &&
+    ts.isIdentifier(keyedType.exprName) &&
+    keyedType.exprName.text === name &&
+    constEnums.has(name)
+    ? name
+    : undefined;
+}
+
+/**
+ * Create the type of the items of an enum like `() => Role` (a TS enum, or the literal union of an `as const` object)
+ * or `["admin", "member"]`
+ */
+export function createEnumItemsType(items: ts.Expression, constEnums: ConstEnums = new Map()): ts.TypeNode | undefined {
+  const unwrapped = unwrapEnumExpression(items);
+  if (ts.isIdentifier(unwrapped)) {
+    return constEnums.get(unwrapped.text) ?? ts.factory.createTypeReferenceNode(unwrapped.text);
+  }
+  if (ts.isArrayLiteralExpression(unwrapped)) {
+    return createLiteralUnionType(unwrapped.elements.map(unwrapEnumExpression));
+  }
+  return undefined;
+}
+
+/**
+ * Whether a type is a primitive or an array of primitives, which the items of the enum narrow
+ */
+function isPrimitiveType(type: ts.TypeNode): boolean {
+  if (ts.isArrayTypeNode(type)) {
+    return isPrimitiveType(type.elementType);
+  }
+  return [
+    ts.SyntaxKind.StringKeyword,
+    ts.SyntaxKind.NumberKeyword,
+    ts.SyntaxKind.AnyKeyword,
+    ts.SyntaxKind.UnknownKeyword,
+  ].includes(type.kind);
+}
+
+/**
+ * Get the type of an `@Enum()` property from the items of the decorator, e.g. `@Enum(() => Role)`,
+ * `@Enum({ items: ["a", "b"] })` or `@Enum({ items: () => Role, array: true })`.
+ * The items replace the missing or primitive type annotations (like `string` or `string[]`),
+ * and the array enums are arrays of the items.
+ */
+export function getEnumPropertyType(
+  member: ts.PropertyDeclaration,
+  type: ts.TypeNode | undefined,
+  constEnums: ConstEnums,
+): ts.TypeNode | undefined {
+  const decorator = findDecorator(member, "Enum");
+  const [firstArgument] = decorator?.arguments ?? [];
+  if (!decorator || !firstArgument) {
+    return type;
+  }
+  const items = ts.isObjectLiteralExpression(firstArgument) ? getDecoratorOption(decorator, "items") : firstArgument;
+  const itemsType = items && createEnumItemsType(items, constEnums);
+  const isArray = getDecoratorOption(decorator, "array")?.kind === ts.SyntaxKind.TrueKeyword;
+
+  if (type && !isPrimitiveType(type)) {
+    // Keep the declared enum types like `Role[]`, but make the array enums declared like `roles!: Role` arrays
+    const isArrayType =
+      ts.isArrayTypeNode(type) ||
+      (ts.isTypeReferenceNode(type) && ts.isIdentifier(type.typeName) && type.typeName.text === "Array");
+    return isArray && !isArrayType ? ts.factory.createArrayTypeNode(type) : type;
+  }
+  if (!itemsType) {
+    return type;
+  }
+  return isArray || (type && ts.isArrayTypeNode(type)) ? ts.factory.createArrayTypeNode(itemsType) : itemsType;
+}
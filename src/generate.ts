@@ -1,8 +1,17 @@
 import * as Codegen from "@sinclair/typebox-codegen";
 import { existsSync } from "fs";
-import { readdir, readFile, writeFile } from "fs/promises";
-import { generateEntityFileTypes } from "./prepare.js";
+import { mkdir, readFile, rm, stat, writeFile } from "fs/promises";
+import { collectionSemantics, generateEntityFileTypes, type CollectionSemantics } from "./prepare.js";
 import { postprocessEnums } from "./post.js";
+import { barrelFileName, getBarrelModuleFileNames, sortDeclarations, splitValidatorCode } from "./split.js";
+import { serializationModes, type SerializationMode } from "./serialization.js";
+import { renameDeclarations, validateNaming, type NamingOptions } from "./naming.js";
+import { loadCompilerOptions } from "./checker.js";
+import { readOrmConfigEntities } from "./orm-config.js";
+import { getGlobBase, globToRegExp, isGlobPattern, toPosixPath, walkDirectory } from "./glob.js";
+import { entityVariants, type EntityVariant } from "./variants.js";
+import { validateCustomDecorators, type CustomDecorators } from "./custom-decorators.js";
+import { addModelStringPatterns, moveNullableConstraints, moveNullableModelConstraints } from "./constraints.js";
 import path from "path";
 
 export const modelsToFunction = {
@@ -21,15 +30,32 @@ export const modelsToFunction = {
 
 export type GenerateEntityValidatorOptions = {
   /**
-   * Directory containing the entities
+   * Directories containing the entities, searched recursively, or glob patterns of the entity files
+   * (e.g. `"./src/modules/{users,posts}/*.entity.ts"`)
    * @default "./src/entities"
    */
-  entitiesDir?: string | undefined;
+  entitiesDir?: string | string[] | undefined;
+  /**
+   * Glob patterns of the files to skip. The patterns without a slash match the file names (e.g. `"*.spec.ts"`).
+   * @default []
+   */
+  excludeFiles?: string[] | undefined;
+  /**
+   * The Mikro-ORM config file (e.g. `"./src/mikro-orm.config.ts"`) whose `entitiesTs` or `entities` are read instead of `entitiesDir`.
+   * The config file is not executed: the entity classes are resolved to their files by following the imports.
+   */
+  ormConfig?: string | undefined;
   /**
    * The file to write the code to if `write` is true.
    * @default "./src/entity-validators.ts"
    */
   outputFile?: string | undefined;
+  /**
+   * The directory to write one validator module per entity to (e.g. `User.ts` with `User`, `PartialUser` and `CreateUser`),
+   * with an `index.ts` barrel re-exporting them, instead of `outputFile`.
+   * The modules import the schemas they reference from each other.
+   */
+  outputDir?: string | undefined;
   /**
    * Whether to write the code to a file.
    * The code is returned from the function regardless of this option.
@@ -46,6 +72,66 @@ export type GenerateEntityValidatorOptions = {
    * @default true for typebox and false for other libraries
    */
   partials?: boolean | undefined;
+  /**
+   * Whether to export the schemas and types from the module instead of `namespace schema`,
+   * e.g. `User` instead of `schema.User` for TypeBox and `User` instead of `schema_User` for the other libraries.
+   * The declarations are sorted after the schemas they reference.
+   * @default false
+   */
+  flat?: boolean | undefined;
+  /**
+   * The naming templates of the generated names, where `{name}` is the type name,
+   * e.g. `{ schema: "{name}Schema", type: "{name}Dto", partial: "{name}Ref" }` for `UserSchema`, `UserDto` and `UserRefSchema`
+   */
+  naming?: NamingOptions | undefined;
+  /**
+   * The semantics of the collection relations:
+   * - `input` for arrays of IDs or references, e.g. `Array<number | schema.PartialPost>` to create or update the entities
+   * - `output` for arrays of serialized entities like `Collection.toJSON()`, e.g. `Array<schema.Post>`
+   * @default "input"
+   */
+  collections?: CollectionSemantics | undefined;
+  /**
+   * The representation of the property values:
+   * - `runtime` for the values of the entities, e.g. `Type.Date()` for `Date` and `Type.BigInt()` for `bigint`
+   * - `json` for the values serialized to JSON, e.g. strings with `format: "date-time"` for `Date`, digit patterns for `bigint`,
+   *   base64 for `Buffer` and `Uint8Array`, and the `uuid`, `date` and `time` formats of the string columns
+   * @default "runtime"
+   */
+  serialization?: SerializationMode | undefined;
+  /**
+   * Whether to resolve the property types with the TypeScript type checker using the tsconfig of the entities directory.
+   * This resolves the types of initializers (e.g. `createdAt = new Date()`), imported type aliases and interfaces, and inherited members.
+   * @default false
+   */
+  typeChecker?: boolean | undefined;
+  /**
+   * The DTO variants to generate for each entity:
+   * - `create` (e.g. `CreateUser`) without the autoincrement primary key, the properties with defaults or `onCreate`,
+   *   and the computed (`persist: false` and `@Formula()`) properties
+   * - `update` (e.g. `UpdateUser`) without the computed properties, and with all the properties optional except the primary key
+   * - `response` (e.g. `UserResponse`) without the `hidden: true` properties
+   * @default []
+   */
+  variants?: EntityVariant[] | undefined;
+  /**
+   * Properties like `User.password` (or `*.password` for all entities) kept in all the variants
+   * @default []
+   */
+  include?: string[] | undefined;
+  /**
+   * Properties like `User.password` (or `*.password` for all entities) removed from the schemas
+   * @default []
+   */
+  exclude?: string[] | undefined;
+  /**
+   * The custom decorators wrapping the Mikro-ORM decorators by name, with the Mikro-ORM decorator they stand for,
+   * e.g. `{ Ref: "ManyToOne" }` for `@Ref(() => User)`, or with the module they are imported from
+   * and the properties they add to the classes, e.g.
+   * `{ AuditedEntity: { decorator: "Entity", from: "@app/orm", properties: { createdAt: "Opt<Date>" } } }`
+   * @default {}
+   */
+  decorators?: CustomDecorators | undefined;
   /**
    * Whether to print verbose output.
    * @default false
@@ -61,15 +147,101 @@ export type GenerateEntityValidatorOptions = {
 export async function generateEntityValidator(
   opts: GenerateEntityValidatorOptions,
 ): Promise<string> {
+  const entitiesOpts = await resolveOrmConfigEntities(opts);
+
   // read the entity files
-  const filesMap = await readEntities(opts);
+  const filesMap = await readEntities(entitiesOpts);
+
+  return generateEntityValidatorFromFiles(filesMap, entitiesOpts);
+}
+
+/**
+ * Replace the entitiesDir option with the entities of the Mikro-ORM config file, if given.
+ */
+export async function resolveOrmConfigEntities(
+  opts: GenerateEntityValidatorOptions,
+): Promise<GenerateEntityValidatorOptions> {
+  if (opts.ormConfig === undefined) {
+    return opts;
+  }
+  return { ...opts, entitiesDir: await readOrmConfigEntities(opts.ormConfig) };
+}
+
+/**
+ * Generate a validator for the given Mikro-ORM entity files.
+ * @param filesMap - The contents of the entity files by path.
+ * @param opts - The options for the validator.
+ * @returns The validator code, or the code of the modules preceded by their paths with `outputDir`.
+ */
+export async function generateEntityValidatorFromFiles(
+  filesMap: Map<string, string>,
+  opts: GenerateEntityValidatorOptions,
+): Promise<string> {
+  const outputFiles = await generateEntityValidatorFiles(filesMap, opts);
+
+  // write the code to the output files, and remove the modules of the entities which are not generated anymore
+  if (opts.write) {
+    const staleFiles = await findStaleOutputFiles(opts.outputDir, outputFiles);
+    await writeOutputFiles(outputFiles);
+    await removeOutputFiles(staleFiles);
+  }
+
+  if (opts.outputDir === undefined) {
+    return [...outputFiles.values()].join("");
+  }
+  return [...outputFiles]
+    .map(([outputFile, code]) => `// ${path.relative(process.cwd(), outputFile)}\n${code}`)
+    .join("\n");
+}
+
+/**
+ * Generate the validator files for the given Mikro-ORM entity files, without writing them.
+ * @param filesMap - The contents of the entity files by path.
+ * @param opts - The options for the validator.
+ * @returns The code of the output file, or of the modules of the output directory, by path.
+ */
+export async function generateEntityValidatorFiles(
+  filesMap: Map<string, string>,
+  opts: GenerateEntityValidatorOptions,
+): Promise<Map<string, string>> {
+  const unknownVariants = (opts.variants ?? []).filter(
+    (variant) => !(entityVariants as readonly string[]).includes(variant),
+  );
+  if (unknownVariants.length > 0) {
+    throw new Error(
+      `Unknown variants: ${unknownVariants.join(", ")}. The supported variants are ${entityVariants.join(", ")}.`,
+    );
+  }
+  if (opts.collections !== undefined && !(collectionSemantics as readonly string[]).includes(opts.collections)) {
+    throw new Error(
+      `Unknown collection semantics: ${opts.collections}. The supported semantics are ${collectionSemantics.join(", ")}.`,
+    );
+  }
+  if (opts.serialization !== undefined && !(serializationModes as readonly string[]).includes(opts.serialization)) {
+    throw new Error(
+      `Unknown serialization mode: ${opts.serialization}. The supported modes are ${serializationModes.join(", ")}.`,
+    );
+  }
+  validateNaming(opts.naming);
+  validateCustomDecorators(opts.decorators);
 
   // generate the entity types
-  const { typesCode, enumDefinitions } = generateEntityFileTypes(filesMap, {
+  const { typesCode, enumDefinitions, enumExportNames, entityTypeNames } = generateEntityFileTypes(filesMap, {
     usePartialTypes:
       opts.partials ??
       (opts.targetValidationLibrary === undefined ||
         opts.targetValidationLibrary === "typebox"),
+    flat: opts.flat,
+    naming: opts.naming,
+    collections: opts.collections,
+    serialization: opts.serialization,
+    useTypeChecker: opts.typeChecker,
+    // the tsconfig of the first entities directory, or of the current directory when no directory is given
+    compilerOptions: () => loadCompilerOptions(createEntityFileMatcher(opts).roots[0] ?? process.cwd()),
+    variants: opts.variants,
+    include: opts.include,
+    exclude: opts.exclude,
+    decorators: opts.decorators,
   });
 
   if (opts.verbose) {
@@ -77,60 +249,215 @@ export async function generateEntityValidator(
   }
 
   // generate the validator via the types
-  const output: string = generateValidator(opts, typesCode);
+  const validatorCode: string = generateValidator(opts, typesCode);
 
-  // postprocess enums to replace redefined enums with imports
-  const outputFile = opts.outputFile ?? "./src/entity-validators.ts";
+  // sort the schemas declared at the top level after the schemas they reference
+  const sortedCode = opts.flat ? sortDeclarations(validatorCode) : validatorCode;
 
-  const postprocessedCode = postprocessEnums(output, enumDefinitions, outputFile);
+  // rename the schemas and their static types with the naming templates
+  const { code: output, renamedNames } = renameDeclarations(sortedCode, opts.naming ?? {});
 
-  // format the code
-  const formattedCode = await formatCode(postprocessedCode);
+  if (opts.outputDir === undefined) {
+    // postprocess enums to replace redefined enums with imports
+    const outputFile = opts.outputFile ?? "./src/entity-validators.ts";
 
-  if (opts.verbose) {
-    console.log("Output\n", formattedCode);
+    const postprocessedCode = postprocessEnums(output, enumDefinitions, outputFile, opts.naming, enumExportNames);
+
+    // format the code
+    const formattedCode = await formatCode(postprocessedCode);
+
+    if (opts.verbose) {
+      console.log("Output\n", formattedCode);
+    }
+
+    return new Map([[outputFile, formattedCode]]);
   }
 
-  // write the code to a file
-  if (opts.write) {
-    await writeFile(
-      outputFile,
-      formattedCode
-    );
+  // split the code into the modules of the entities, which import the enums from the output directory
+  const outputDir = opts.outputDir;
+  const postprocessedCode = postprocessEnums(
+    output,
+    enumDefinitions,
+    path.join(outputDir, barrelFileName),
+    opts.naming,
+    enumExportNames,
+  );
+  const modules = splitValidatorCode(
+    postprocessedCode,
+    new Map([
+      ...entityTypeNames,
+      ...Array.from(renamedNames, ([renamedName, typeName]): [string, string] => [
+        renamedName,
+        entityTypeNames.get(typeName) ?? typeName,
+      ]),
+    ]),
+  );
+
+  const outputFiles = new Map<string, string>();
+  for (const [fileName, code] of modules) {
+    const formattedCode = await formatCode(code);
+    if (opts.verbose) {
+      console.log(`Output ${fileName}\n`, formattedCode);
+    }
+    outputFiles.set(path.join(outputDir, fileName), formattedCode);
   }
+  return outputFiles;
+}
 
-  return formattedCode;
+/**
+ * Write the code to the output file unless it already contains the same code.
+ * @returns Whether the file was written.
+ */
+export async function writeOutputFile(outputFile: string, code: string): Promise<boolean> {
+  if (existsSync(outputFile) && (await readFile(outputFile, "utf-8")) === code) {
+    return false;
+  }
+  await writeFile(outputFile, code);
+  return true;
 }
 
-async function readEntities(opts: GenerateEntityValidatorOptions) {
-  const entitiesDir = path.resolve(opts.entitiesDir ?? "./src/entities");
-  if (!existsSync(entitiesDir)) {
-    throw new Error(
-      `Entities directory does not exist: ${entitiesDir}. Set the entitiesDir option to the correct directory.`,
-    );
+/**
+ * Write the output files, creating their directories, except the files which already contain the same code.
+ * @returns The files which were written.
+ */
+export async function writeOutputFiles(outputFiles: Map<string, string>): Promise<string[]> {
+  const writtenFiles: string[] = [];
+  for (const [outputFile, code] of outputFiles) {
+    await mkdir(path.dirname(outputFile), { recursive: true });
+    if (await writeOutputFile(outputFile, code)) {
+      writtenFiles.push(outputFile);
+    }
   }
+  return writtenFiles;
+}
 
-  const entities = await readdir(entitiesDir);
-
-  // filter to only include TypeScript files
-  const extensions = new Set([
-    ".ts",
-    ".mts",
-    ".cts",
-    ".js",
-    ".mjs",
-    ".cjs",
-    ".jsx",
-    ".tsx",
-  ]);
-  const entityFiles = entities.filter((entity) =>
-    extensions.has(path.extname(entity)),
-  );
+/**
+ * Find the modules of the output directory which are not generated anymore, e.g. after an entity was deleted or renamed.
+ * Only the modules re-exported by the barrel of the previous generation are owned by the generator,
+ * so the barrel must be read before it is overwritten.
+ * @param outputDir - The output directory, or undefined for a single output file.
+ * @param outputFiles - The generated files by path.
+ * @returns The paths of the stale modules.
+ */
+export async function findStaleOutputFiles(
+  outputDir: string | undefined,
+  outputFiles: Map<string, string>,
+): Promise<string[]> {
+  if (outputDir === undefined) {
+    return [];
+  }
+  const barrelFile = path.join(outputDir, barrelFileName);
+  if (!existsSync(barrelFile)) {
+    return [];
+  }
+  const generatedFiles = new Set(Array.from(outputFiles.keys(), (outputFile) => path.resolve(outputFile)));
+  return getBarrelModuleFileNames(await readFile(barrelFile, "utf-8"))
+    .map((fileName) => path.join(outputDir, fileName))
+    .filter((moduleFile) => !generatedFiles.has(path.resolve(moduleFile)) && existsSync(moduleFile));
+}
+
+/**
+ * Remove the stale output files found by findStaleOutputFiles.
+ * @returns Whether a file was removed.
+ */
+export async function removeOutputFiles(staleFiles: string[]): Promise<boolean> {
+  await Promise.all(staleFiles.map((staleFile) => rm(staleFile, { force: true })));
+  return staleFiles.length > 0;
+}
+
+/**
+ * The extensions of the entity files
+ */
+export const entityFileExtensions = new Set([
+  ".ts",
+  ".mts",
+  ".cts",
+  ".js",
+  ".mjs",
+  ".cjs",
+  ".jsx",
+  ".tsx",
+]);
+
+/**
+ * The entity files of the entitiesDir and excludeFiles options
+ */
+export type EntityFileMatcher = {
+  /** The directories and files to search, i.e. the entity directories and files and the bases of the glob patterns */
+  roots: string[];
+  /** Whether the file is an entity file */
+  matches: (filePath: string) => boolean;
+};
+
+/**
+ * Create the matcher of the entity files from the entitiesDir and excludeFiles options
+ */
+export function createEntityFileMatcher(opts: GenerateEntityValidatorOptions): EntityFileMatcher {
+  const patterns = [opts.entitiesDir ?? "./src/entities"].flat();
+
+  const includes = patterns.map((pattern) => {
+    const resolvedPattern = path.resolve(pattern);
+    if (isGlobPattern(pattern)) {
+      const regexp = globToRegExp(toPosixPath(resolvedPattern));
+      return {
+        root: path.resolve(getGlobBase(pattern)),
+        matches: (filePath: string) => regexp.test(toPosixPath(filePath)),
+      };
+    }
+    return {
+      root: resolvedPattern,
+      matches: (filePath: string) => {
+        const relativePath = path.relative(resolvedPattern, filePath);
+        return !relativePath.startsWith("..") && !path.isAbsolute(relativePath);
+      },
+    };
+  });
+
+  const excludes = (opts.excludeFiles ?? []).map((pattern) => {
+    // the patterns without a slash match the file names
+    if (!pattern.includes("/")) {
+      const regexp = globToRegExp(pattern);
+      return (filePath: string) => regexp.test(path.basename(filePath));
+    }
+    const regexp = globToRegExp(toPosixPath(path.resolve(pattern)));
+    return (filePath: string) => regexp.test(toPosixPath(filePath));
+  });
+
+  return {
+    roots: includes.map(({ root }) => root),
+    matches: (filePath) => {
+      const resolvedPath = path.resolve(filePath);
+      return (
+        entityFileExtensions.has(path.extname(resolvedPath)) &&
+        includes.some(({ matches }) => matches(resolvedPath)) &&
+        !excludes.some((matches) => matches(resolvedPath))
+      );
+    },
+  };
+}
+
+export async function readEntities(opts: GenerateEntityValidatorOptions) {
+  const { roots, matches } = createEntityFileMatcher(opts);
+
+  // search the entity directories recursively
+  const entityFiles = new Set<string>();
+  for (const root of roots) {
+    if (!existsSync(root)) {
+      throw new Error(
+        `Entities directory does not exist: ${root}. Set the entitiesDir option to the correct directory.`,
+      );
+    }
+    const files = (await stat(root)).isDirectory() ? await walkDirectory(root) : [root];
+    for (const file of files) {
+      if (matches(file)) {
+        entityFiles.add(file);
+      }
+    }
+  }
 
-  // read the entity files and return a map of entity names to their contents
+  // read the entity files and return a map of entity paths to their contents
   return new Map(await Promise.all(
-    entityFiles.map(async (entity): Promise<[string, string]> => {
-      const entityPath = path.join(entitiesDir, entity);
+    [...entityFiles].map(async (entityPath): Promise<[string, string]> => {
       const content = await readFile(entityPath, "utf-8");
       return [entityPath, content];
     }),
@@ -146,20 +473,27 @@ function generateValidator(
     opts.targetValidationLibrary === "typebox"
   ) {
     // generate the typebox code
-    return Codegen.TypeScriptToTypeBox.Generate(typesCode, {
-      useExportEverything: true,
-      useTypeBoxImport: true,
-      useIdentifiers: false,
-    });
+    return moveNullableConstraints(
+      Codegen.TypeScriptToTypeBox.Generate(typesCode, {
+        useExportEverything: true,
+        useTypeBoxImport: true,
+        useIdentifiers: false,
+      }),
+    );
   } else if (opts.targetValidationLibrary in modelsToFunction) {
-    // generate the model
+    // generate the model, with the constraints of the nullable properties on their non-null member
     const model = Codegen.TypeScriptToModel.Generate(typesCode);
+    moveNullableModelConstraints(model.types);
 
     // get the model name
     const modelName = modelsToFunction[opts.targetValidationLibrary];
 
-    // generate the code
-    return Codegen[`ModelTo${modelName}`].Generate(model);
+    // generate the code, with the patterns of the strings the model generators do not emit
+    return addModelStringPatterns(
+      Codegen[`ModelTo${modelName}`].Generate(model),
+      model.types,
+      opts.targetValidationLibrary,
+    );
   } else {
     throw new Error(
       `Invalid target validation library: ${opts.targetValidationLibrary}.\nValid options are: ${Object.keys(modelsToFunction).join(", ")}.`,
@@ -0,0 +1,100 @@
+import { readdir } from "fs/promises";
+import path from "path";
+
+/**
+ * The directories which are never searched for files
+ */
+const ignoredDirectories = new Set(["node_modules", ".git"]);
+
+/**
+ * Convert the separators of a path to forward slashes, as used by the glob patterns
+ */
+export function toPosixPath(filePath: string): string {
+  return filePath.split(path.sep).join("/");
+}
+
+/**
+ * Whether the pattern contains glob syntax (`*`, `?`, `[...]` or `{a,b}`)
+ */
+export function isGlobPattern(pattern: string): boolean {
+  return /[*?[\]{}]/.test(pattern);
+}
+
+/**
+ * Get the directory of a glob pattern before its first glob segment, e.g. `src/modules` for `src/modules/**`
+ */
+export function getGlobBase(pattern: string): string {
+  const segments = toPosixPath(pattern).split("/");
+  const globIndex = segments.findIndex(isGlobPattern);
+  const base = (globIndex === -1 ? segments : segments.slice(0, globIndex)).join("/");
+  return base === "" ? (pattern.startsWith("/") ? "/" : ".") : base;
+}
+
+/**
+ * Convert a glob pattern to a regular expression matching the whole path.
+ * Supports `**` for any number of directories, `*` and `?` within a path segment, `[...]` character classes and `{a,b}` alternatives.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const glob = toPosixPath(pattern);
+  let source = "";
+  let braceDepth = 0;
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index]!;
+    if (char === "*") {
+      if (glob[index + 1] === "*") {
+        if (glob[index + 2] === "/") {
+          // `**/` matches zero or more directories
+          source += "(?:[^/]+/)*";
+          index += 2;
+        } else {
+          source += ".*";
+          index += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", index + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        const characters = glob.slice(index + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\");
+        source += `[${characters}]`;
+        index = end;
+      }
+    } else if (char === "{") {
+      source += "(?:";
+      braceDepth++;
+    } else if (char === "}" && braceDepth > 0) {
+      source += ")";
+      braceDepth--;
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|\\{}\]]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * List the files of a directory and its subdirectories, except `node_modules` and `.git`
+ * @param dir - The directory to list.
+ * @returns The paths of the files, sorted.
+ */
+export async function walkDirectory(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!ignoredDirectories.has(entry.name)) {
+        files.push(...(await walkDirectory(entryPath)));
+      }
+    } else if (entry.isFile()) {
+      files.push(entryPath);
+    }
+  }
+  return files.sort();
+}
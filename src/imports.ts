@@ -0,0 +1,312 @@
+import path from "path";
+import * as ts from "typescript";
+import { defaultCompilerOptions } from "./checker.js";
+
+/**
+ * The declarations which can be imported by the entity files from the other modules of the project
+ */
+export type ImportableDeclaration =
+  | ts.EnumDeclaration
+  | ts.InterfaceDeclaration
+  | ts.TypeAliasDeclaration
+  | ts.ClassDeclaration;
+
+/**
+ * A declaration imported by the entity files from another module
+ */
+export interface ImportedDeclaration {
+  /** The file declaring it, which might be re-exported by the imported module */
+  filePath: string;
+  declaration: ImportableDeclaration;
+}
+
+/**
+ * Whether a statement declares an enum, an interface, a type alias or a class
+ */
+function isImportableDeclaration(statement: ts.Statement): statement is ImportableDeclaration {
+  return (
+    ts.isEnumDeclaration(statement) ||
+    ts.isInterfaceDeclaration(statement) ||
+    ts.isTypeAliasDeclaration(statement) ||
+    ts.isClassDeclaration(statement)
+  );
+}
+
+/**
+ * Get the declaration of a type or an enum with the given name from the statements of a module
+ */
+function findDeclaration(sourceFile: ts.SourceFile, name: string): ImportableDeclaration | undefined {
+  return sourceFile.statements.find(
+    (statement): statement is ImportableDeclaration =>
+      isImportableDeclaration(statement) && statement.name?.text === name,
+  );
+}
+
+/**
+ * Collect the names of the types referenced by a node, e.g. `Address` for `address: Address`
+ * or `Base` for `interface Settings extends Base`
+ */
+function collectTypeReferences(node: ts.Node, typeNames: Set<string> = new Set()): Set<string> {
+  if (ts.isTypeReferenceNode(node) && ts.isIdentifier(node.typeName)) {
+    typeNames.add(node.typeName.text);
+  } else if (ts.isExpressionWithTypeArguments(node) && ts.isIdentifier(node.expression)) {
+    typeNames.add(node.expression.text);
+  }
+  ts.forEachChild(node, (childNode) => {
+    collectTypeReferences(childNode, typeNames);
+  });
+  return typeNames;
+}
+
+/**
+ * The extensions of the modules whose declarations can be imported by the generated code
+ */
+const sourceFileExtensions = [".ts", ".tsx", ".mts", ".cts"];
+
+/**
+ * Resolves the imports of the entity files to the modules of the project, following relative paths and tsconfig paths.
+ * The entity files are served from the given map, and the other modules are read from the disk.
+ * When the compiler options are given as a function, the imports are resolved with the default compiler options first,
+ * and the options are only loaded for the imports these do not resolve (e.g. the tsconfig paths).
+ */
+export function createImportResolver(
+  files: Map<string, string>,
+  compilerOptions: ts.CompilerOptions | (() => ts.CompilerOptions),
+) {
+  const contents = new Map(Array.from(files, ([filePath, content]) => [path.resolve(filePath), content]));
+  const host: ts.ModuleResolutionHost = {
+    fileExists: (fileName) => contents.has(path.resolve(fileName)) || ts.sys.fileExists(fileName),
+    readFile: (fileName) => contents.get(path.resolve(fileName)) ?? ts.sys.readFile(fileName),
+    directoryExists: ts.sys.directoryExists,
+    realpath: ts.sys.realpath,
+    getCurrentDirectory: ts.sys.getCurrentDirectory,
+  };
+  const resolutionCaches = new Map<ts.CompilerOptions, ts.ModuleResolutionCache>();
+  let loadedCompilerOptions: ts.CompilerOptions | undefined;
+  const sourceFiles = new Map<string, ts.SourceFile | undefined>();
+
+  /**
+   * Get the parsed module of a file, or undefined if it cannot be read
+   */
+  const getSourceFile = (filePath: string): ts.SourceFile | undefined => {
+    if (!sourceFiles.has(filePath)) {
+      const content = host.readFile(filePath);
+      sourceFiles.set(
+        filePath,
+        content === undefined ? undefined : ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true),
+      );
+    }
+    return sourceFiles.get(filePath);
+  };
+
+  /**
+   * Resolve a module specifier to the source file of a project module, or undefined for the libraries
+   */
+  const resolveModule = (moduleName: string, containingFile: string): string | undefined => {
+    const resolveWith = (options: ts.CompilerOptions) => {
+      let resolutionCache = resolutionCaches.get(options);
+      if (!resolutionCache) {
+        resolutionCache = ts.createModuleResolutionCache(process.cwd(), (fileName) => fileName, options);
+        resolutionCaches.set(options, resolutionCache);
+      }
+      return ts.resolveModuleName(moduleName, path.resolve(containingFile), options, host, resolutionCache)
+        .resolvedModule;
+    };
+    let resolvedModule: ts.ResolvedModuleFull | undefined;
+    if (typeof compilerOptions === "function") {
+      resolvedModule = resolveWith(defaultCompilerOptions);
+      if (!resolvedModule) {
+        loadedCompilerOptions ??= compilerOptions();
+        resolvedModule = resolveWith(loadedCompilerOptions);
+      }
+    } else {
+      resolvedModule = resolveWith(compilerOptions);
+    }
+    if (
+      !resolvedModule ||
+      resolvedModule.isExternalLibraryImport ||
+      !sourceFileExtensions.includes(resolvedModule.extension) ||
+      resolvedModule.resolvedFileName.endsWith(".d.ts")
+    ) {
+      return undefined;
+    }
+    return path.resolve(resolvedModule.resolvedFileName);
+  };
+
+  /**
+   * Find the declaration exported by a module with the given name, following the re-exports like `export * from "./role"`
+   */
+  const findExportedDeclaration = (
+    filePath: string,
+    name: string,
+    visitedFiles = new Set<string>(),
+  ): ImportedDeclaration | undefined => {
+    const sourceFile = getSourceFile(filePath);
+    if (!sourceFile || visitedFiles.has(filePath)) {
+      return undefined;
+    }
+    visitedFiles.add(filePath);
+
+    const declaration = findDeclaration(sourceFile, name);
+    if (declaration) {
+      return { filePath, declaration };
+    }
+    for (const statement of sourceFile.statements) {
+      if (
+        !ts.isExportDeclaration(statement) ||
+        !statement.moduleSpecifier ||
+        !ts.isStringLiteral(statement.moduleSpecifier)
+      ) {
+        continue;
+      }
+      // Follow `export * from "./role"` and `export { Role } from "./role"`, without the aliases
+      const exportClause = statement.exportClause;
+      const isReexported =
+        exportClause === undefined ||
+        (ts.isNamedExports(exportClause) &&
+          exportClause.elements.some((element) => element.name.text === name && !element.propertyName));
+      const reexportedFile = isReexported ? resolveModule(statement.moduleSpecifier.text, filePath) : undefined;
+      const exportedDeclaration = reexportedFile && findExportedDeclaration(reexportedFile, name, visitedFiles);
+      if (exportedDeclaration) {
+        return exportedDeclaration;
+      }
+    }
+    return undefined;
+  };
+
+  /**
+   * Find the module of the project a file imports a name from, with the name exported by the module,
+   * e.g. the `../types` module of `import { Address } from "../types"`,
+   * or the `Role` export of `import { Role as UserRole } from "../enums"`
+   */
+  const findImportedModule = (
+    sourceFile: ts.SourceFile,
+    name: string,
+  ): { filePath: string; exportedName: string } | undefined => {
+    for (const statement of sourceFile.statements) {
+      if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) {
+        continue;
+      }
+      const namedBindings = statement.importClause?.namedBindings;
+      const element =
+        namedBindings && ts.isNamedImports(namedBindings)
+          ? namedBindings.elements.find((importSpecifier) => importSpecifier.name.text === name)
+          : undefined;
+      if (element) {
+        const filePath = resolveModule(statement.moduleSpecifier.text, sourceFile.fileName);
+        const exportedName = (element.propertyName ?? element.name).text;
+        return filePath === undefined ? undefined : { filePath, exportedName };
+      }
+    }
+    return undefined;
+  };
+
+  /**
+   * Find a declaration referenced by an imported declaration, declared by its module or imported from another module.
+   * The entities are not followed, as they are declared by the entity files.
+   */
+  const findReferencedDeclaration = (filePath: string, name: string): ImportedDeclaration | undefined => {
+    const sourceFile = getSourceFile(filePath);
+    const declaration = sourceFile && findDeclaration(sourceFile, name);
+    if (!sourceFile || declaration) {
+      return declaration && { filePath, declaration };
+    }
+    const importedModule = findImportedModule(sourceFile, name);
+    return importedModule && !contents.has(importedModule.filePath)
+      ? findExportedDeclaration(importedModule.filePath, importedModule.exportedName)
+      : undefined;
+  };
+
+  /**
+   * Get the names of the types referenced by an imported declaration, without its type parameters.
+   * Only the properties and the base classes of the classes are converted to types.
+   */
+  const getReferencedTypeNames = (declaration: ImportableDeclaration): string[] => {
+    const nodes = ts.isClassDeclaration(declaration)
+      ? [...(declaration.heritageClauses ?? []), ...declaration.members.filter(ts.isPropertyDeclaration)]
+      : [declaration];
+    const typeNames = new Set<string>();
+    for (const node of nodes) {
+      collectTypeReferences(node, typeNames);
+    }
+    const typeParameters = ts.isEnumDeclaration(declaration) ? [] : (declaration.typeParameters ?? []);
+    return Array.from(typeNames).filter(
+      (typeName) =>
+        typeName !== declaration.name?.text &&
+        !typeParameters.some((typeParameter) => typeParameter.name.text === typeName),
+    );
+  };
+
+  return {
+    /**
+     * Collect the declarations imported by the entity files from the other modules of the project, by local name,
+     * with the declarations they reference before them:
+     * - the enums, e.g. `import { Role } from "../enums"`
+     * - the interfaces, type aliases and classes referenced by the types of the entity files,
+     *   e.g. `address!: Address` with `import { Address } from "../types"`
+     * The declarations imported with an alias (e.g. `import { Role as UserRole }`) are collected by their alias,
+     * and their declaration keeps the exported name. The names declared by the entity files are not collected.
+     */
+    collectImportedDeclarations(): Map<string, ImportedDeclaration> {
+      const entitySourceFiles = Array.from(files, ([filePath, content]) =>
+        ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true),
+      );
+      const declaredNames = new Set(
+        entitySourceFiles.flatMap((sourceFile) =>
+          sourceFile.statements.flatMap((statement) =>
+            isImportableDeclaration(statement) && statement.name ? [statement.name.text] : [],
+          ),
+        ),
+      );
+      const importedDeclarations = new Map<string, ImportedDeclaration>();
+      const visitedNames = new Set<string>();
+
+      // Add the referenced declarations first, as the schemas are declared in order
+      const addDeclaration = (name: string, importedDeclaration: ImportedDeclaration) => {
+        if (visitedNames.has(name) || declaredNames.has(name)) {
+          return;
+        }
+        visitedNames.add(name);
+        for (const typeName of getReferencedTypeNames(importedDeclaration.declaration)) {
+          const referencedDeclaration = findReferencedDeclaration(importedDeclaration.filePath, typeName);
+          if (referencedDeclaration) {
+            addDeclaration(typeName, referencedDeclaration);
+          }
+        }
+        importedDeclarations.set(name, importedDeclaration);
+      };
+
+      for (const sourceFile of entitySourceFiles) {
+        const referencedTypeNames = collectTypeReferences(sourceFile);
+        for (const statement of sourceFile.statements) {
+          if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) {
+            continue;
+          }
+          const namedBindings = statement.importClause?.namedBindings;
+          if (!namedBindings || !ts.isNamedImports(namedBindings)) {
+            continue;
+          }
+          const elements = namedBindings.elements.filter((element) => !visitedNames.has(element.name.text));
+          const importedFile =
+            elements.length > 0 ? resolveModule(statement.moduleSpecifier.text, sourceFile.fileName) : undefined;
+          // The modules of the entity files declare their types themselves
+          if (!importedFile || contents.has(importedFile)) {
+            continue;
+          }
+          for (const element of elements) {
+            const name = element.name.text;
+            const exportedName = (element.propertyName ?? element.name).text;
+            const importedDeclaration = findExportedDeclaration(importedFile, exportedName);
+            if (
+              importedDeclaration &&
+              (ts.isEnumDeclaration(importedDeclaration.declaration) || referencedTypeNames.has(name))
+            ) {
+              addDeclaration(name, importedDeclaration);
+            }
+          }
+        }
+      }
+      return importedDeclarations;
+    },
+  };
+}
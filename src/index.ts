@@ -1 +1,7 @@
 export * from "./generate.js";
+export * from "./watch.js";
+export * from "./check.js";
+export * from "./config.js";
+export * from "./orm-config.js";
+export type { NamingOptions } from "./naming.js";
+export type { CustomDecorator, CustomDecorators, MikroOrmDecorator } from "./custom-decorators.js";
@@ -1,15 +1,14 @@
 import * as ts from "typescript";
-import { type EntityParseOptions, replaceEntityTypeWithPartialType, replaceEntityTypeWithPrimaryKey, transformTypeNode } from "./prepare.js";
-
-// TODO: use the built-in type checker to infer the type
+import { createCollectionType, type EntityParseOptions, type EntityPrimaryKeys, transformTypeNode } from "./prepare.js";
 
 /**
  * Infer type from property initializer by analyzing the AST
  * This handles common patterns like Collection<T> and other generic types
+ * Other initializers are resolved by the type checker when `useTypeChecker` is enabled
  */
 export function inferTypeFromInitializer(
   initializer: ts.Expression,
-  entityPrimaryKeys: Map<string, { fieldName: string; fieldType: ts.TypeNode; }>,
+  entityPrimaryKeys: EntityPrimaryKeys,
   options: EntityParseOptions,
   circularReferences: Map<string, Set<string>> = new Map(),
   currentEntity?: string,
@@ -26,22 +25,7 @@ export function inferTypeFromInitializer(
         return undefined;
       }
 
-      // Transform the generic type based on the usePartialTypes option
-      const transformedType = options.usePartialTypes
-        ? replaceEntityTypeWithPartialType(genericType, entityPrimaryKeys, circularReferences, currentEntity)
-        : replaceEntityTypeWithPrimaryKey(genericType, entityPrimaryKeys);
-
-      // Return Collection<T> | Array<T> for compatibility
-      return ts.factory.createUnionTypeNode([
-        ts.factory.createTypeReferenceNode(
-          ts.factory.createIdentifier("Collection"),
-          [transformedType]
-        ),
-        ts.factory.createTypeReferenceNode(
-          ts.factory.createIdentifier("Array"),
-          [transformedType]
-        ),
-      ]);
+      return createCollectionType(genericType, entityPrimaryKeys, options, circularReferences, currentEntity);
     }
   }
 
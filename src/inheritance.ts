@@ -0,0 +1,288 @@
+import * as ts from "typescript";
+import { findDecorator, getDecoratorOption } from "./decorators.js";
+
+/**
+ * Class declarations by class name, used to follow `extends` chains across files
+ */
+export type ClassDeclarations = Map<string, ts.ClassDeclaration>;
+
+/**
+ * The discriminator of an entity of a single table inheritance hierarchy
+ */
+export interface Discriminator {
+  /** The discriminator property, from the `discriminatorColumn` option of the root entity */
+  propertyName: string;
+  /** The discriminator value of the entity */
+  value: string;
+}
+
+/**
+ * A single table inheritance hierarchy
+ */
+export interface DiscriminatedUnion {
+  /** The root entity, declaring the `discriminatorColumn` */
+  root: string;
+  /** The concrete entities of the hierarchy (the root unless abstract, and the entities extending it) */
+  members: string[];
+}
+
+/**
+ * Collect the named class declarations of a source file
+ */
+export function collectClassDeclarations(
+  node: ts.Node,
+  classDeclarations: ClassDeclarations = new Map(),
+): ClassDeclarations {
+  if (ts.isClassDeclaration(node) && node.name) {
+    classDeclarations.set(node.name.text, node);
+  }
+  ts.forEachChild(node, (childNode) => {
+    collectClassDeclarations(childNode, classDeclarations);
+  });
+  return classDeclarations;
+}
+
+/**
+ * Get the declaration of the class extended by a class.
+ * Returns undefined for base classes declared outside the entity files (e.g. the `BaseEntity` of Mikro-ORM or mixins).
+ */
+export function getBaseClass(
+  node: ts.ClassDeclaration,
+  classDeclarations: ClassDeclarations,
+): ts.ClassDeclaration | undefined {
+  const extendsClause = node.heritageClauses?.find(
+    (clause) => clause.token === ts.SyntaxKind.ExtendsKeyword,
+  );
+  const baseExpression = extendsClause?.types[0]?.expression;
+  if (!baseExpression || !ts.isIdentifier(baseExpression)) {
+    return undefined;
+  }
+  const baseClass = classDeclarations.get(baseExpression.text);
+  return baseClass !== node ? baseClass : undefined;
+}
+
+/**
+ * Get the chain of base classes of a class, from the closest to the root
+ */
+function getBaseClasses(
+  node: ts.ClassDeclaration,
+  classDeclarations: ClassDeclarations,
+): ts.ClassDeclaration[] {
+  const baseClasses: ts.ClassDeclaration[] = [];
+  let baseClass = getBaseClass(node, classDeclarations);
+  while (baseClass && !baseClasses.includes(baseClass)) {
+    baseClasses.push(baseClass);
+    baseClass = getBaseClass(baseClass, classDeclarations);
+  }
+  return baseClasses;
+}
+
+function getPropertyName(member: ts.PropertyDeclaration): string | undefined {
+  if (ts.isIdentifier(member.name) || ts.isStringLiteral(member.name)) {
+    return member.name.text;
+  }
+  // Symbol properties like `[PrimaryKeyProp]`
+  if (ts.isComputedPropertyName(member.name) && ts.isIdentifier(member.name.expression)) {
+    return `[${member.name.expression.text}]`;
+  }
+  return undefined;
+}
+
+/**
+ * Get the property declarations of a class and of its base classes, the properties of the root class first.
+ * Properties redeclared in a derived class override the ones of its base classes.
+ */
+export function getClassProperties(
+  node: ts.ClassDeclaration,
+  classDeclarations: ClassDeclarations,
+): ts.PropertyDeclaration[] {
+  const properties = new Map<string, ts.PropertyDeclaration>();
+  for (const classDeclaration of [...getBaseClasses(node, classDeclarations).reverse(), node]) {
+    for (const member of classDeclaration.members) {
+      const propertyName = ts.isPropertyDeclaration(member) ? getPropertyName(member) : undefined;
+      if (propertyName !== undefined) {
+        properties.delete(propertyName);
+        properties.set(propertyName, member as ts.PropertyDeclaration);
+      }
+    }
+  }
+  return Array.from(properties.values());
+}
+
+/**
+ * Recreate a leaf node (identifier, literal or token) without its source file position
+ */
+function cloneLeafNode(node: ts.Node): ts.Node {
+  const { factory } = ts;
+  if (ts.isIdentifier(node)) {
+    return factory.createIdentifier(node.text);
+  }
+  if (ts.isStringLiteral(node)) {
+    return factory.createStringLiteral(node.text);
+  }
+  if (ts.isNumericLiteral(node)) {
+    return factory.createNumericLiteral(node.text);
+  }
+  if (ts.isBigIntLiteral(node)) {
+    return factory.createBigIntLiteral(node.text);
+  }
+  if (ts.isNoSubstitutionTemplateLiteral(node)) {
+    return factory.createNoSubstitutionTemplateLiteral(node.text);
+  }
+  if (ts.isTemplateHead(node)) {
+    return factory.createTemplateHead(node.text);
+  }
+  if (ts.isTemplateMiddle(node)) {
+    return factory.createTemplateMiddle(node.text);
+  }
+  if (ts.isTemplateTail(node)) {
+    return factory.createTemplateTail(node.text);
+  }
+  if (ts.isRegularExpressionLiteral(node)) {
+    return factory.createRegularExpressionLiteral(node.text);
+  }
+  if (ts.isTokenKind(node.kind)) {
+    return factory.createToken(node.kind as ts.KeywordSyntaxKind);
+  }
+  return node;
+}
+
+/**
+ * Deep clone a node without its source file positions, so it can be printed in another source file.
+ * The printer reads the text of literals and comments from the printed source file at the positions of the nodes,
+ * which garbles the nodes of other files.
+ */
+export function detachNode<T extends ts.Node>(node: T): T {
+  // Recreating the leaves updates all their ancestors
+  const result = ts.transform(node, [
+    (context) => {
+      const visitor = (childNode: ts.Node): ts.Node =>
+        ts.forEachChild(childNode, () => true)
+          ? ts.visitEachChild(childNode, visitor, context)
+          : cloneLeafNode(childNode);
+      return (rootNode) => visitor(rootNode) as T;
+    },
+  ]);
+  const clone = result.transformed[0]!;
+  result.dispose();
+
+  // The updated nodes keep the positions of the original nodes
+  const resetTextRange = (childNode: ts.Node) => {
+    if (!childNode.parent) {
+      ts.setTextRange(childNode, { pos: -1, end: -1 });
+      ts.forEachChild(childNode, resetTextRange);
+    }
+  };
+  resetTextRange(clone);
+  return clone;
+}
+
+/**
+ * Whether the class is abstract, with the `abstract` modifier or `@Entity({ abstract: true })`
+ */
+function isAbstractClass(node: ts.ClassDeclaration): boolean {
+  const entityDecorator = findDecorator(node, "Entity");
+  return (
+    (node.modifiers?.some((modifier) => modifier.kind === ts.SyntaxKind.AbstractKeyword) ?? false) ||
+    (entityDecorator !== undefined &&
+      getDecoratorOption(entityDecorator, "abstract")?.kind === ts.SyntaxKind.TrueKeyword)
+  );
+}
+
+/**
+ * Get the default discriminator value of an entity, which is its table name with the default naming strategy
+ * (e.g. `FullTimeEmployee` becomes `full_time_employee`)
+ */
+function getDefaultDiscriminatorValue(className: string): string {
+  return className
+    .replace(/([a-z\d])([A-Z])/g, "$1_$2")
+    .replace(/([A-Z]+)([A-Z][a-z\d])/g, "$1_$2")
+    .toLowerCase();
+}
+
+/**
+ * Get the discriminator values of the `discriminatorMap` option of a root entity, by class name.
+ * The map values are class names (`{ employee: "Employee" }`) or classes (`{ employee: Employee }`).
+ */
+function getDiscriminatorMap(entityDecorator: ts.CallExpression): Map<string, string> {
+  const discriminatorMap = new Map<string, string>();
+  const mapOption = getDecoratorOption(entityDecorator, "discriminatorMap");
+  if (!mapOption || !ts.isObjectLiteralExpression(mapOption)) {
+    return discriminatorMap;
+  }
+  for (const property of mapOption.properties) {
+    if (
+      !ts.isPropertyAssignment(property) ||
+      !(ts.isIdentifier(property.name) || ts.isStringLiteral(property.name) || ts.isNumericLiteral(property.name))
+    ) {
+      continue;
+    }
+    const target = property.initializer;
+    if (ts.isStringLiteralLike(target) || ts.isIdentifier(target)) {
+      discriminatorMap.set(target.text, property.name.text);
+    }
+  }
+  return discriminatorMap;
+}
+
+/**
+ * Find the single table inheritance hierarchies, which are the entities extending a root entity
+ * declared with `@Entity({ discriminatorColumn })` (but not `inheritance: "tpt"`), and the discriminator of each entity.
+ * The discriminator values are read from the `discriminatorMap` of the root entity, which leaves the unmapped entities
+ * out of the union. Without a map, they are read from the `discriminatorValue` option of each entity,
+ * and default to the snake case class name.
+ */
+export function collectDiscriminatedUnions(
+  classDeclarations: ClassDeclarations,
+  entityNames: Set<string>,
+): { discriminatedUnions: DiscriminatedUnion[]; discriminators: Map<string, Discriminator> } {
+  const discriminatedUnions: DiscriminatedUnion[] = [];
+  const discriminators = new Map<string, Discriminator>();
+
+  for (const [root, rootClass] of classDeclarations) {
+    const entityDecorator = findDecorator(rootClass, "Entity");
+    const discriminatorColumn = entityDecorator && getDecoratorOption(entityDecorator, "discriminatorColumn");
+    const inheritance = entityDecorator && getDecoratorOption(entityDecorator, "inheritance");
+    if (
+      !entityNames.has(root) ||
+      !discriminatorColumn ||
+      !ts.isStringLiteralLike(discriminatorColumn) ||
+      (inheritance && ts.isStringLiteralLike(inheritance) && inheritance.text === "tpt")
+    ) {
+      continue;
+    }
+
+    const discriminatorMap = getDiscriminatorMap(entityDecorator);
+    const members: string[] = [];
+    for (const [className, classDeclaration] of classDeclarations) {
+      const isHierarchyMember =
+        classDeclaration === rootClass || getBaseClasses(classDeclaration, classDeclarations).includes(rootClass);
+      if (!isHierarchyMember || !entityNames.has(className) || isAbstractClass(classDeclaration)) {
+        continue;
+      }
+
+      const memberDecorator = findDecorator(classDeclaration, "Entity");
+      const discriminatorValue = memberDecorator && getDecoratorOption(memberDecorator, "discriminatorValue");
+      const value =
+        discriminatorMap.size > 0
+          ? discriminatorMap.get(className)
+          : discriminatorValue && ts.isStringLiteralLike(discriminatorValue)
+            ? discriminatorValue.text
+            : getDefaultDiscriminatorValue(className);
+      // Mikro-ORM never writes a discriminator value of the entities missing from the discriminator map
+      if (value === undefined) {
+        continue;
+      }
+      members.push(className);
+      discriminators.set(className, { propertyName: discriminatorColumn.text, value });
+    }
+
+    if (members.length > 0) {
+      // Order the members from the root to the most derived entities
+      const depth = (className: string) => getBaseClasses(classDeclarations.get(className)!, classDeclarations).length;
+      discriminatedUnions.push({ root, members: members.sort((a, b) => depth(a) - depth(b)) });
+    }
+  }
+
+  return { discriminatedUnions, discriminators };
+}
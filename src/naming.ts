@@ -0,0 +1,173 @@
+import * as ts from "typescript";
+
+/**
+ * The templates of the generated names, where `{name}` is replaced with the name of the type
+ */
+export type NamingOptions = {
+  /**
+   * The name of the schemas, e.g. `"{name}Schema"` for `UserSchema` and `PartialUserSchema`
+   * @default "{name}"
+   */
+  schema?: string | undefined;
+  /**
+   * The name of the static types of the schemas, e.g. `"{name}Dto"` for `type UserDto = Static<typeof User>`
+   * @default "{name}"
+   */
+  type?: string | undefined;
+  /**
+   * The name of the partial types referencing the entities, e.g. `"{name}Ref"` for `UserRef`
+   * (and `UserRefSchema` with the `"{name}Schema"` schema template)
+   * @default "Partial{name}"
+   */
+  partial?: string | undefined;
+  /**
+   * The alias of the imported enums, e.g. `"{name}Enum"` for `import { UserRole as UserRoleEnum }`
+   * @default "Enum{name}"
+   */
+  enum?: string | undefined;
+};
+
+/**
+ * The default naming templates
+ */
+export const defaultNaming: Required<NamingOptions> = {
+  schema: "{name}",
+  type: "{name}",
+  partial: "Partial{name}",
+  enum: "Enum{name}",
+};
+
+/**
+ * Format a name with a naming template, e.g. `UserSchema` for `"{name}Schema"` and `User`
+ */
+export function formatName(template: string, name: string): string {
+  return template.replaceAll("{name}", name);
+}
+
+/**
+ * Get the name of the partial type of an entity, e.g. `PartialUser`
+ */
+export function getPartialTypeName(entityName: string, naming: NamingOptions = {}): string {
+  return formatName(naming.partial ?? defaultNaming.partial, entityName);
+}
+
+/**
+ * Get the alias of an imported enum, e.g. `EnumUserRole`
+ */
+export function getEnumAliasName(enumName: string, naming: NamingOptions = {}): string {
+  return formatName(naming.enum ?? defaultNaming.enum, enumName);
+}
+
+/**
+ * Check that the naming templates contain `{name}`, as the generated names would collide otherwise,
+ * and that the imported enums are not named like the enum schemas
+ */
+export function validateNaming(naming: NamingOptions = {}): void {
+  for (const [key, template] of Object.entries(naming)) {
+    if (template !== undefined && !template.includes("{name}")) {
+      throw new Error(`Invalid naming template "${template}" of naming.${key}: the template must contain {name}.`);
+    }
+  }
+  if (getEnumAliasName("{name}", naming) === formatName(naming.schema ?? defaultNaming.schema, "{name}")) {
+    throw new Error("Invalid naming templates: the imported enums cannot be named like the enum schemas.");
+  }
+}
+
+/**
+ * Whether an identifier is the name of a type, or a reference to it
+ */
+function isTypeIdentifier(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  return (
+    ((ts.isTypeAliasDeclaration(parent) || ts.isInterfaceDeclaration(parent)) && parent.name === node) ||
+    (ts.isTypeReferenceNode(parent) && parent.typeName === node)
+  );
+}
+
+/**
+ * Whether an identifier is the name of a schema constant, or a reference to it.
+ * The names of types and properties, and the imported names, are not schema references.
+ */
+function isSchemaIdentifier(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  if (ts.isPropertyAccessExpression(parent) && parent.name === node) {
+    // the schemas of the namespace, e.g. `schema.PartialUser`
+    return ts.isIdentifier(parent.expression) && parent.expression.text === "schema";
+  }
+  return !(
+    isTypeIdentifier(node) ||
+    ((ts.isPropertyAssignment(parent) || ts.isPropertySignature(parent)) && parent.name === node) ||
+    ts.isImportSpecifier(parent) ||
+    ts.isImportClause(parent) ||
+    ts.isNamespaceImport(parent)
+  );
+}
+
+/**
+ * Rename the schema constants and the static types of the validator code with the naming templates,
+ * e.g. `User` to `UserSchema` and `UserDto`.
+ * @param code - The validator code.
+ * @param naming - The naming templates.
+ * @returns The renamed code, and the type name of each renamed schema and type.
+ */
+export function renameDeclarations(
+  code: string,
+  naming: NamingOptions,
+): { code: string; renamedNames: Map<string, string> } {
+  const sourceFile = ts.createSourceFile("validators.ts", code, ts.ScriptTarget.Latest, true);
+
+  // Collect the schema constants and the types declared at the top level or in `namespace schema`
+  const renamedNames = new Map<string, string>();
+  const renamedSchemas = new Map<string, string>();
+  const renamedTypes = new Map<string, string>();
+  const rename = (names: Map<string, string>, template: string | undefined, typeName: string) => {
+    const newName = formatName(template ?? "{name}", typeName);
+    if (newName !== typeName) {
+      names.set(typeName, newName);
+      renamedNames.set(newName, typeName);
+    }
+  };
+  const collectDeclarations = (statements: ts.NodeArray<ts.Statement>) => {
+    for (const statement of statements) {
+      if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          if (ts.isIdentifier(declaration.name)) {
+            rename(renamedSchemas, naming.schema, declaration.name.text);
+          }
+        }
+      } else if (ts.isTypeAliasDeclaration(statement) || ts.isInterfaceDeclaration(statement)) {
+        rename(renamedTypes, naming.type, statement.name.text);
+      } else if (ts.isModuleDeclaration(statement) && statement.body && ts.isModuleBlock(statement.body)) {
+        collectDeclarations(statement.body.statements);
+      }
+    }
+  };
+  collectDeclarations(sourceFile.statements);
+
+  if (renamedNames.size === 0) {
+    return { code, renamedNames };
+  }
+
+  // Replace the declarations and the references of the schemas and the types, from the end of the code
+  const replacements: { start: number; end: number; text: string }[] = [];
+  const visitor = (node: ts.Node) => {
+    if (ts.isIdentifier(node)) {
+      const newName = isTypeIdentifier(node)
+        ? renamedTypes.get(node.text)
+        : isSchemaIdentifier(node)
+          ? renamedSchemas.get(node.text)
+          : undefined;
+      if (newName !== undefined) {
+        replacements.push({ start: node.getStart(sourceFile), end: node.getEnd(), text: newName });
+      }
+    }
+    ts.forEachChild(node, visitor);
+  };
+  visitor(sourceFile);
+
+  let renamedCode = code;
+  for (const { start, end, text } of replacements.sort((a, b) => b.start - a.start)) {
+    renamedCode = renamedCode.slice(0, start) + text + renamedCode.slice(end);
+  }
+  return { code: renamedCode, renamedNames };
+}
@@ -0,0 +1,534 @@
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import path from "path";
+import * as ts from "typescript";
+import { loadCompilerOptions } from "./checker.js";
+
+/**
+ * A declaration found by following the imports and exports of the modules
+ */
+type ResolvedDeclaration =
+  | { kind: "entity"; fileName: string }
+  | {
+      kind: "expression";
+      expression: ts.Expression;
+      sourceFile: ts.SourceFile;
+    }
+  | { kind: "package"; moduleName: string };
+
+/**
+ * An imported module: a module of the project, or a package (e.g. an entity library installed in node_modules)
+ */
+type ImportedModule = { kind: "module"; sourceFile: ts.SourceFile } | { kind: "package"; moduleName: string };
+
+/**
+ * The state of reading a Mikro-ORM config file
+ */
+interface OrmConfigContext {
+  configPath: string;
+  /** The compiler options of the config file, used to resolve the imports */
+  compilerOptions: ts.CompilerOptions;
+  /** The parsed source files by path */
+  sourceFiles: Map<string, ts.SourceFile>;
+}
+
+async function getSourceFile(context: OrmConfigContext, fileName: string): Promise<ts.SourceFile> {
+  let sourceFile = context.sourceFiles.get(fileName);
+  if (!sourceFile) {
+    const code = await readFile(fileName, "utf-8");
+    sourceFile = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true);
+    context.sourceFiles.set(fileName, sourceFile);
+  }
+  return sourceFile;
+}
+
+/**
+ * Resolve an import of a module to its source file, with the tsconfig of the config file (e.g. for the `paths` aliases).
+ * Returns undefined for the packages, whose declaration files cannot be read as entities.
+ */
+function resolveModule(context: OrmConfigContext, specifier: string, sourceFile: ts.SourceFile): string | undefined {
+  for (const compilerOptions of [
+    context.compilerOptions,
+    {
+      ...context.compilerOptions,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+    },
+  ]) {
+    const { resolvedModule } = ts.resolveModuleName(specifier, sourceFile.fileName, compilerOptions, ts.sys);
+    if (
+      resolvedModule &&
+      !resolvedModule.isExternalLibraryImport &&
+      !resolvedModule.resolvedFileName.endsWith(".d.ts")
+    ) {
+      return path.resolve(resolvedModule.resolvedFileName);
+    }
+  }
+  if (!specifier.startsWith(".") && !path.isAbsolute(specifier)) {
+    return undefined;
+  }
+  throw new Error(`Cannot resolve the module "${specifier}" imported in ${sourceFile.fileName}`);
+}
+
+/**
+ * Get the module of an import, parsing the source file of the modules of the project
+ */
+async function getImportedModule(
+  context: OrmConfigContext,
+  specifier: string,
+  sourceFile: ts.SourceFile,
+): Promise<ImportedModule> {
+  const fileName = resolveModule(context, specifier, sourceFile);
+  return fileName === undefined
+    ? { kind: "package", moduleName: specifier }
+    : { kind: "module", sourceFile: await getSourceFile(context, fileName) };
+}
+
+/**
+ * Find the declaration of an export of an imported module
+ */
+async function resolveImportedExport(
+  context: OrmConfigContext,
+  exportName: string,
+  importedModule: ImportedModule,
+): Promise<ResolvedDeclaration | undefined> {
+  return importedModule.kind === "package"
+    ? importedModule
+    : resolveExport(context, exportName, importedModule.sourceFile);
+}
+
+/**
+ * Find the declaration of a local name, following its import
+ */
+async function resolveName(
+  context: OrmConfigContext,
+  name: string,
+  sourceFile: ts.SourceFile,
+): Promise<ResolvedDeclaration | undefined> {
+  for (const statement of sourceFile.statements) {
+    if ((ts.isClassDeclaration(statement) || ts.isFunctionDeclaration(statement)) && statement.name?.text === name) {
+      return { kind: "entity", fileName: sourceFile.fileName };
+    }
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name) && declaration.name.text === name) {
+          return declaration.initializer
+            ? {
+                kind: "expression",
+                expression: declaration.initializer,
+                sourceFile,
+              }
+            : undefined;
+        }
+      }
+    }
+    if (
+      ts.isImportDeclaration(statement) &&
+      ts.isStringLiteral(statement.moduleSpecifier) &&
+      statement.importClause &&
+      !statement.importClause.isTypeOnly
+    ) {
+      const { name: defaultImport, namedBindings } = statement.importClause;
+      const specifier = statement.moduleSpecifier.text;
+      if (defaultImport?.text === name) {
+        return resolveImportedExport(context, "default", await getImportedModule(context, specifier, sourceFile));
+      }
+      if (namedBindings && ts.isNamedImports(namedBindings)) {
+        const element = namedBindings.elements.find((element) => element.name.text === name);
+        if (element) {
+          const importedName = element.propertyName?.text ?? element.name.text;
+          return resolveImportedExport(context, importedName, await getImportedModule(context, specifier, sourceFile));
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the declaration of an export of a module, following its re-exports
+ */
+async function resolveExport(
+  context: OrmConfigContext,
+  exportName: string,
+  sourceFile: ts.SourceFile,
+  visited = new Set<string>(),
+): Promise<ResolvedDeclaration | undefined> {
+  if (visited.has(sourceFile.fileName)) {
+    return undefined;
+  }
+  visited.add(sourceFile.fileName);
+
+  for (const statement of sourceFile.statements) {
+    const isExported =
+      ts.canHaveModifiers(statement) &&
+      (ts.getModifiers(statement) ?? []).some((modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword);
+    const isDefault =
+      ts.canHaveModifiers(statement) &&
+      (ts.getModifiers(statement) ?? []).some((modifier) => modifier.kind === ts.SyntaxKind.DefaultKeyword);
+
+    if (exportName === "default" && ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      return ts.isIdentifier(statement.expression)
+        ? resolveName(context, statement.expression.text, sourceFile)
+        : { kind: "expression", expression: statement.expression, sourceFile };
+    }
+    if (isExported && exportName === "default" && isDefault) {
+      return { kind: "entity", fileName: sourceFile.fileName };
+    }
+    if (isExported && !isDefault) {
+      const names = ts.isVariableStatement(statement)
+        ? statement.declarationList.declarations.map((declaration) => declaration.name.getText(sourceFile))
+        : ts.isClassDeclaration(statement) || ts.isFunctionDeclaration(statement)
+          ? [statement.name?.text]
+          : [];
+      if (names.includes(exportName)) {
+        return resolveName(context, exportName, sourceFile);
+      }
+    }
+    if (ts.isExportDeclaration(statement) && !statement.isTypeOnly) {
+      const importedModule =
+        statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+          ? await getImportedModule(context, statement.moduleSpecifier.text, sourceFile)
+          : undefined;
+      if (!statement.exportClause) {
+        // export * from "./module", without the exports of the packages
+        const resolved =
+          importedModule?.kind === "module" &&
+          (await resolveExport(context, exportName, importedModule.sourceFile, visited));
+        if (resolved) {
+          return resolved;
+        }
+      } else if (ts.isNamedExports(statement.exportClause)) {
+        const element = statement.exportClause.elements.find((element) => element.name.text === exportName);
+        if (element) {
+          const localName = element.propertyName?.text ?? element.name.text;
+          return importedModule
+            ? resolveImportedExport(context, localName, importedModule)
+            : resolveName(context, localName, sourceFile);
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the files declaring all the exports of a module, following its re-exports
+ */
+async function getModuleFiles(
+  context: OrmConfigContext,
+  sourceFile: ts.SourceFile,
+  visited = new Set<string>(),
+): Promise<string[]> {
+  if (visited.has(sourceFile.fileName)) {
+    return [];
+  }
+  visited.add(sourceFile.fileName);
+
+  const files: string[] = [];
+  for (const statement of sourceFile.statements) {
+    if (
+      ts.isExportDeclaration(statement) &&
+      !statement.isTypeOnly &&
+      statement.moduleSpecifier &&
+      ts.isStringLiteral(statement.moduleSpecifier)
+    ) {
+      const importedModule = await getImportedModule(context, statement.moduleSpecifier.text, sourceFile);
+      if (importedModule.kind === "module") {
+        files.push(...(await getModuleFiles(context, importedModule.sourceFile, visited)));
+      }
+    } else if (
+      (ts.isClassDeclaration(statement) || ts.isVariableStatement(statement)) &&
+      (ts.getModifiers(statement) ?? []).some((modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword)
+    ) {
+      files.push(sourceFile.fileName);
+    }
+  }
+  return [...new Set(files)];
+}
+
+/**
+ * Get the module of a namespace import, e.g. `entities` of `import * as entities from "./entities"`
+ */
+async function getNamespaceImport(
+  context: OrmConfigContext,
+  name: string,
+  sourceFile: ts.SourceFile,
+): Promise<ImportedModule | undefined> {
+  for (const statement of sourceFile.statements) {
+    if (
+      ts.isImportDeclaration(statement) &&
+      ts.isStringLiteral(statement.moduleSpecifier) &&
+      statement.importClause?.namedBindings &&
+      ts.isNamespaceImport(statement.importClause.namedBindings) &&
+      statement.importClause.namedBindings.name.text === name
+    ) {
+      return getImportedModule(context, statement.moduleSpecifier.text, sourceFile);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the object literal of an expression, unwrapping the calls like `defineConfig({...})`, functions returning objects,
+ * and the `as`/`satisfies` expressions, and following the identifiers
+ */
+async function getObjectLiteral(
+  context: OrmConfigContext,
+  expression: ts.Expression,
+  sourceFile: ts.SourceFile,
+): Promise<{ object: ts.ObjectLiteralExpression; sourceFile: ts.SourceFile } | undefined> {
+  const unwrapped = unwrapExpression(expression);
+  if (ts.isObjectLiteralExpression(unwrapped)) {
+    return { object: unwrapped, sourceFile };
+  }
+  if (ts.isCallExpression(unwrapped)) {
+    for (const argument of unwrapped.arguments) {
+      const object = await getObjectLiteral(context, argument, sourceFile);
+      if (object) {
+        return object;
+      }
+    }
+    return undefined;
+  }
+  if (ts.isArrowFunction(unwrapped) || ts.isFunctionExpression(unwrapped)) {
+    if (!ts.isBlock(unwrapped.body)) {
+      return getObjectLiteral(context, unwrapped.body, sourceFile);
+    }
+    const returnStatement = unwrapped.body.statements.find(ts.isReturnStatement);
+    return returnStatement?.expression && getObjectLiteral(context, returnStatement.expression, sourceFile);
+  }
+  if (ts.isIdentifier(unwrapped)) {
+    const resolved = await resolveName(context, unwrapped.text, sourceFile);
+    return resolved?.kind === "expression"
+      ? getObjectLiteral(context, resolved.expression, resolved.sourceFile)
+      : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Get the value of a property of an object literal, following the spread objects (the last declaration wins)
+ */
+async function getProperty(
+  context: OrmConfigContext,
+  object: ts.ObjectLiteralExpression,
+  name: string,
+  sourceFile: ts.SourceFile,
+): Promise<{ expression: ts.Expression; sourceFile: ts.SourceFile } | undefined> {
+  for (const property of [...object.properties].reverse()) {
+    if (ts.isPropertyAssignment(property) && getPropertyNameText(property.name) === name) {
+      return { expression: property.initializer, sourceFile };
+    }
+    if (ts.isShorthandPropertyAssignment(property) && property.name.text === name) {
+      return { expression: property.name, sourceFile };
+    }
+    if (ts.isSpreadAssignment(property)) {
+      const spread = await getObjectLiteral(context, property.expression, sourceFile);
+      const value = spread && (await getProperty(context, spread.object, name, spread.sourceFile));
+      if (value) {
+        return value;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the entity files and path patterns of a declaration: an entity class, an array or a path of entities,
+ * or an entity declared as a variable (e.g. an EntitySchema). The entities imported from packages are skipped.
+ */
+async function getDeclarationEntities(
+  context: OrmConfigContext,
+  declaration: ResolvedDeclaration,
+  baseDir: string,
+): Promise<string[]> {
+  if (declaration.kind === "entity") {
+    return [declaration.fileName];
+  }
+  if (declaration.kind === "package") {
+    return [];
+  }
+  const initializer = unwrapExpression(declaration.expression);
+  return ts.isArrayLiteralExpression(initializer) || ts.isStringLiteral(initializer)
+    ? getEntities(context, initializer, declaration.sourceFile, baseDir)
+    : [declaration.sourceFile.fileName];
+}
+
+/**
+ * Get the entity files and path patterns of an `entities` or `entitiesTs` array
+ */
+async function getEntities(
+  context: OrmConfigContext,
+  expression: ts.Expression,
+  sourceFile: ts.SourceFile,
+  baseDir: string,
+): Promise<string[]> {
+  const unwrapped = unwrapExpression(expression);
+
+  if (ts.isStringLiteral(unwrapped) || ts.isNoSubstitutionTemplateLiteral(unwrapped)) {
+    return [path.resolve(baseDir, unwrapped.text)];
+  }
+  if (ts.isArrayLiteralExpression(unwrapped)) {
+    const entities: string[] = [];
+    for (const element of unwrapped.elements) {
+      entities.push(...(await getEntities(context, element, sourceFile, baseDir)));
+    }
+    return entities;
+  }
+  if (ts.isSpreadElement(unwrapped)) {
+    return getEntities(context, unwrapped.expression, sourceFile, baseDir);
+  }
+  if (ts.isIdentifier(unwrapped)) {
+    const resolved = await resolveName(context, unwrapped.text, sourceFile);
+    if (resolved) {
+      return getDeclarationEntities(context, resolved, baseDir);
+    }
+  }
+  if (ts.isPropertyAccessExpression(unwrapped) && ts.isIdentifier(unwrapped.expression)) {
+    // entities.User of import * as entities from "./entities"
+    const importedModule = await getNamespaceImport(context, unwrapped.expression.text, sourceFile);
+    const resolved = importedModule && (await resolveImportedExport(context, unwrapped.name.text, importedModule));
+    if (resolved) {
+      return getDeclarationEntities(context, resolved, baseDir);
+    }
+  }
+  if (
+    ts.isCallExpression(unwrapped) &&
+    ts.isPropertyAccessExpression(unwrapped.expression) &&
+    ts.isIdentifier(unwrapped.expression.expression) &&
+    unwrapped.expression.expression.text === "Object" &&
+    unwrapped.expression.name.text === "values" &&
+    unwrapped.arguments[0] &&
+    ts.isIdentifier(unwrapped.arguments[0])
+  ) {
+    // Object.values(entities) of import * as entities from "./entities"
+    const importedModule = await getNamespaceImport(context, unwrapped.arguments[0].text, sourceFile);
+    if (importedModule) {
+      return importedModule.kind === "module" ? getModuleFiles(context, importedModule.sourceFile) : [];
+    }
+  }
+
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(unwrapped.getStart(sourceFile));
+  throw new Error(
+    `Cannot statically resolve the entities "${unwrapped.getText(sourceFile)}" at ${sourceFile.fileName}:${line + 1}:${character + 1}`,
+  );
+}
+
+/**
+ * Get the entity files and path patterns of the config file.
+ * `entitiesTs` is preferred over `entities`, like Mikro-ORM does when running the TypeScript sources.
+ */
+async function readConfigEntities(context: OrmConfigContext): Promise<string[]> {
+  const sourceFile = await getSourceFile(context, context.configPath);
+  const config = await getConfigObject(context, sourceFile);
+  if (!config) {
+    throw new Error(`Cannot find the exported config object in ${context.configPath}`);
+  }
+
+  const entities =
+    (await getProperty(context, config.object, "entitiesTs", config.sourceFile)) ??
+    (await getProperty(context, config.object, "entities", config.sourceFile));
+  if (!entities) {
+    throw new Error(`The Mikro-ORM config ${context.configPath} does not declare entities or entitiesTs`);
+  }
+
+  const baseDir = await getBaseDir(context, config.object, config.sourceFile);
+  return [...new Set(await getEntities(context, entities.expression, entities.sourceFile, baseDir))];
+}
+
+/**
+ * Get the config object of the default export, `module.exports`, or the `MikroORM.init` call
+ */
+async function getConfigObject(context: OrmConfigContext, sourceFile: ts.SourceFile) {
+  const defaultExport = await resolveExport(context, "default", sourceFile);
+  if (defaultExport?.kind === "expression") {
+    return getObjectLiteral(context, defaultExport.expression, defaultExport.sourceFile);
+  }
+
+  let configExpression: ts.Expression | undefined;
+  const visit = (node: ts.Node): void => {
+    if (configExpression) {
+      return;
+    }
+    if (
+      ts.isBinaryExpression(node) &&
+      node.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+      node.left.getText(sourceFile) === "module.exports"
+    ) {
+      configExpression = node.right;
+    } else if (ts.isCallExpression(node) && node.expression.getText(sourceFile) === "MikroORM.init") {
+      configExpression = node;
+    } else {
+      ts.forEachChild(node, visit);
+    }
+  };
+  visit(sourceFile);
+  return configExpression && getObjectLiteral(context, configExpression, sourceFile);
+}
+
+/**
+ * Get the directory of the entity paths: the `baseDir` option if it is statically known, or the current directory like Mikro-ORM
+ */
+async function getBaseDir(
+  context: OrmConfigContext,
+  config: ts.ObjectLiteralExpression,
+  sourceFile: ts.SourceFile,
+): Promise<string> {
+  const baseDir = await getProperty(context, config, "baseDir", sourceFile);
+  if (!baseDir) {
+    return process.cwd();
+  }
+  const expression = unwrapExpression(baseDir.expression);
+  if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression)) {
+    return path.resolve(expression.text);
+  }
+  if (["__dirname", "import.meta.dirname"].includes(expression.getText(baseDir.sourceFile))) {
+    return path.dirname(baseDir.sourceFile.fileName);
+  }
+  if (ts.isCallExpression(expression) && expression.expression.getText(baseDir.sourceFile) === "process.cwd") {
+    return process.cwd();
+  }
+  throw new Error(`Cannot statically resolve the baseDir of ${context.configPath}`);
+}
+
+/**
+ * Unwrap the parentheses, `as`, `satisfies` and non-null expressions
+ */
+function unwrapExpression(expression: ts.Expression): ts.Expression {
+  while (
+    ts.isParenthesizedExpression(expression) ||
+    ts.isAsExpression(expression) ||
+    ts.isSatisfiesExpression(expression) ||
+    ts.isNonNullExpression(expression) ||
+    ts.isTypeAssertionExpression(expression) ||
+    ts.isAwaitExpression(expression)
+  ) {
+    expression = expression.expression;
+  }
+  return expression;
+}
+
+function getPropertyNameText(name: ts.PropertyName): string | undefined {
+  return ts.isIdentifier(name) || ts.isStringLiteral(name) ? name.text : undefined;
+}
+
+/**
+ * Read the entities of a Mikro-ORM config file (e.g. `mikro-orm.config.ts`) without running it.
+ * The entity classes of `entities` or `entitiesTs` are resolved to the files declaring them by following the imports,
+ * and the paths are resolved from the `baseDir` option or the current directory.
+ * The entities imported from packages (e.g. an entity library installed in node_modules) are skipped.
+ * @param ormConfigFile - The Mikro-ORM config file.
+ * @returns The entity files, directories and glob patterns, which can be used as the entitiesDir option.
+ */
+export async function readOrmConfigEntities(ormConfigFile: string): Promise<string[]> {
+  const configPath = path.resolve(ormConfigFile);
+  if (!existsSync(configPath)) {
+    throw new Error(`Mikro-ORM config file does not exist: ${configPath}`);
+  }
+  return readConfigEntities({
+    configPath,
+    compilerOptions: loadCompilerOptions(path.dirname(configPath)),
+    sourceFiles: new Map(),
+  });
+}
@@ -1,14 +1,18 @@
 import path from "path";
 import * as ts from "typescript";
+import { getEnumAliasName, type NamingOptions } from "./naming.js";
 
 /**
  * Postprocesses generated code to detect redefined enums with Enum<OriginalName> pattern
- * and replace them with imports of the original enums aliased as Enum<OriginalName>
+ * and replace them with imports of the original enums aliased with the enum naming template (Enum<OriginalName> by default).
+ * The enums imported with an alias by the entities are imported by the name their module exports (`exportNames`).
  */
 export function postprocessEnums(
     code: string,
     enumMap: Map<string, string>,
     outputPath: string,
+    naming: NamingOptions = {},
+    exportNames: Map<string, string> = new Map(),
 ): string {
     const sourceFile = ts.createSourceFile(
         outputPath,
@@ -61,7 +65,7 @@ export function postprocessEnums(
     const imports: string[] = [];
     const processedEnums = new Set<string>();
 
-    for (const [enumName, originalName] of enumDefinitions) {
+    for (const originalName of enumDefinitions.values()) {
         if (!processedEnums.has(originalName)) {
             // Use the enum map to find the correct import path
             let enumPath = enumMap.get(originalName);
@@ -80,7 +84,8 @@ export function postprocessEnums(
             if (!importPath.startsWith(".")) {
                 importPath = `./${importPath}`;
             }
-            imports.push(`import { ${originalName} as ${enumName} } from "${importPath}";`);
+            const exportName = exportNames.get(originalName) ?? originalName;
+            imports.push(`import { ${exportName} as ${getEnumAliasName(originalName, naming)} } from "${importPath}";`);
             processedEnums.add(originalName);
         }
     }
@@ -97,6 +102,12 @@ export function postprocessEnums(
                     }
                 }
 
+                // Reference the imported enums by their alias
+                if (ts.isIdentifier(node) && enumDefinitions.has(node.text)) {
+                    const aliasName = getEnumAliasName(enumDefinitions.get(node.text)!, naming);
+                    return aliasName === node.text ? node : ts.factory.createIdentifier(aliasName);
+                }
+
                 return ts.visitEachChild(node, visitor, context);
             };
 
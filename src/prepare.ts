@@ -1,5 +1,64 @@
 import * as ts from "typescript";
 import { inferTypeFromInitializer } from "./infer.js";
+import {
+  defaultCompilerOptions,
+  resolvePropertyTypes,
+  type ResolvedPropertyType,
+  type ResolvedPropertyTypes,
+} from "./checker.js";
+import { createImportResolver, type ImportableDeclaration } from "./imports.js";
+import {
+  collectConstEnums,
+  getConstEnumValueTypeName,
+  getEnumPropertyType,
+  isConstEnumStatement,
+  type ConstEnums,
+} from "./enums.js";
+import { transformEntitySchemas } from "./entity-schema.js";
+import { transformCustomDecorators, type CustomDecorators } from "./custom-decorators.js";
+import { removePropertyTypeMarkers, unwrapReferenceType } from "./wrappers.js";
+import { getPartialTypeName, type NamingOptions } from "./naming.js";
+import { getSerializedTypeConstraints, serializeType, type SerializationMode } from "./serialization.js";
+import {
+  findDecorator,
+  findRelationDecorator,
+  getDecoratorOption,
+  getPropertyOption,
+  getRelationTargets,
+  isEntityOrEmbeddable,
+  type RelationKind,
+} from "./decorators.js";
+import {
+  addConstraintsComment,
+  createNullableType,
+  getPropertyConstraints,
+  isNullableProperty,
+} from "./constraints.js";
+import {
+  collectClassDeclarations,
+  collectDiscriminatedUnions,
+  detachNode,
+  getClassProperties,
+  type ClassDeclarations,
+  type Discriminator,
+} from "./inheritance.js";
+import {
+  createEntityVariantTypes,
+  getVariantTypeName,
+  isOptionalEntityProperty,
+  matchesPropertyPattern,
+  type EntityProperty,
+  type EntityVariant,
+} from "./variants.js";
+
+/**
+ * The semantics of the collection relations
+ * - `input`: the IDs or the references of the entities, as accepted by `em.create()` and `assign()`, e.g. `Array<number | schema.PartialPost>`
+ * - `output`: the serialized entities of `Collection.toJSON()`, e.g. `Array<schema.Post>`
+ */
+export const collectionSemantics = ["input", "output"] as const;
+
+export type CollectionSemantics = (typeof collectionSemantics)[number];
 
 export interface EntityParseOptions {
   /**
@@ -7,8 +66,69 @@ export interface EntityParseOptions {
    * When false, replaces entity references with inline primary key objects to avoid circular references.
    */
   usePartialTypes?: boolean;
+  /**
+   * When true, declares the types at the top level of the module instead of in `namespace schema`,
+   * and references the partial types without the `schema.` prefix
+   */
+  flat?: boolean;
+  /**
+   * The naming templates, of which the `partial` template names the partial types (e.g. `PartialUser`)
+   */
+  naming?: NamingOptions;
+  /**
+   * The semantics of the collection relations, as arrays of IDs or references (`input`)
+   * or as arrays of serialized entities (`output`). Defaults to `input`.
+   */
+  collections?: CollectionSemantics;
+  /**
+   * The representation of the property values, as the values of the entities (`runtime`, e.g. `Date`)
+   * or as their JSON serialization (`json`, e.g. date-time strings). Defaults to `runtime`.
+   */
+  serialization?: SerializationMode;
+  /**
+   * When true, resolves the property types with the TypeScript type checker instead of only the syntax of each file.
+   * This resolves the types of initializers (e.g. `createdAt = new Date()`), imported type aliases and interfaces, and inherited members.
+   */
+  useTypeChecker?: boolean;
+  /**
+   * The compiler options of the type checker and of the resolution of the imported modules
+   * (e.g. loaded from the tsconfig of the entities directory with `loadCompilerOptions`),
+   * or a function loading them, which is only called when the type checker or an unresolved import needs them
+   */
+  compilerOptions?: ts.CompilerOptions | (() => ts.CompilerOptions);
+  /**
+   * The DTO variants to generate for each entity, e.g. `CreateUser`, `UpdateUser` and `UserResponse`
+   */
+  variants?: EntityVariant[];
+  /**
+   * Properties like `User.password` (or `*.password` for all entities) kept in all the variants,
+   * even when their options (e.g. `hidden: true` or `persist: false`) drop them from some variants
+   */
+  include?: string[];
+  /**
+   * Properties like `User.password` (or `*.password` for all entities) removed from the entity types and their variants
+   */
+  exclude?: string[];
+  /**
+   * The custom decorators by name with the Mikro-ORM decorator they stand for, e.g. `{ Ref: "ManyToOne" }`,
+   * or their semantics, e.g. `{ AuditedEntity: { decorator: "Entity", properties: { createdAt: "Date" } } }`
+   */
+  decorators?: CustomDecorators;
 }
 
+/**
+ * A primary key field of an entity
+ */
+export interface PrimaryKeyField {
+  fieldName: string;
+  fieldType: ts.TypeNode;
+}
+
+/**
+ * The primary key fields of each entity by entity name, with several fields for composite primary keys
+ */
+export type EntityPrimaryKeys = Map<string, PrimaryKeyField[]>;
+
 /**
  * Tracks entity relations to detect circular references
  */
@@ -16,10 +136,10 @@ interface EntityRelation {
   from: string;
   to: string;
   propertyName: string;
+  kind: RelationKind;
   isCollection: boolean;
 }
 
-
 /**
  * Sort entities by dependency order, handling circular dependencies gracefully
  * Returns entities in order from least dependent to most dependent
@@ -197,113 +317,137 @@ function detectCircularReferences(
 }
 
 /**
- * Collect entity relations from a source file
+ * Add the collection relations to the entities declared after the entity owning them to the circular references,
+ * as the serialized entities of the `output` collections must be declared before the collections referencing them
+ */
+function addForwardCollectionReferences(
+  entityRelations: EntityRelation[],
+  sortedEntityNames: string[],
+  circularReferences: Map<string, Set<string>>,
+): Map<string, Set<string>> {
+  const positions = new Map(sortedEntityNames.map((entityName, index) => [entityName, index]));
+  const references = new Map([...circularReferences].map(([from, targets]) => [from, new Set(targets)]));
+  for (const { from, to, isCollection } of entityRelations) {
+    if (isCollection && from !== to && (positions.get(to) ?? -1) > (positions.get(from) ?? -1)) {
+      references.set(from, (references.get(from) ?? new Set<string>()).add(to));
+    }
+  }
+  return references;
+}
+
+/**
+ * Get the entity name from a relation property type like `User`, `User | null`, `Ref<User>`, `Collection<User>` or `Address[]`
+ */
+function getEntityNameFromTypeNode(type: ts.TypeNode): string | undefined {
+  const referencedType = unwrapReferenceType(type);
+  if (referencedType) {
+    return getEntityNameFromTypeNode(referencedType);
+  }
+  if (ts.isUnionTypeNode(type)) {
+    for (const unionMember of type.types) {
+      const entityName = getEntityNameFromTypeNode(unionMember);
+      if (entityName) {
+        return entityName;
+      }
+    }
+    return undefined;
+  }
+  if (ts.isArrayTypeNode(type)) {
+    return getEntityNameFromTypeNode(type.elementType);
+  }
+  if (ts.isTypeReferenceNode(type) && ts.isIdentifier(type.typeName)) {
+    const genericType = type.typeArguments?.[0];
+    if ((type.typeName.text === "Collection" || type.typeName.text === "Array") && genericType) {
+      return getEntityNameFromTypeNode(genericType);
+    }
+    return type.typeName.text;
+  }
+  return undefined;
+}
+
+/**
+ * Get the target entity name of a relation property from its type annotation or its `new Collection<T>(this)` initializer
+ */
+function getRelationTargetFromProperty(member: ts.PropertyDeclaration): string | undefined {
+  if (member.type) {
+    return getEntityNameFromTypeNode(removePropertyTypeMarkers(member.type));
+  }
+  if (member.initializer && ts.isNewExpression(member.initializer)) {
+    const expression = member.initializer.expression;
+    const genericType = member.initializer.typeArguments?.[0];
+    if (ts.isIdentifier(expression) && expression.text === "Collection" && genericType) {
+      return getEntityNameFromTypeNode(genericType);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Infer the type of a relation or embedded property without a type annotation from its decorator, e.g.
+ * - `@ManyToMany(() => Tag) tags = new Collection(this)` becomes `Collection<Tag>`
+ * - `@Embedded(() => Address, { array: true }) addresses = []` becomes `Address[]`
+ */
+function inferTypeFromRelationDecorator(member: ts.PropertyDeclaration): ts.TypeNode | undefined {
+  const relation = findRelationDecorator(member);
+  if (!relation) {
+    return undefined;
+  }
+  const targetEntityNames = getRelationTargets(relation.decorator);
+  if (targetEntityNames.length === 0) {
+    return undefined;
+  }
+  const targetTypes = targetEntityNames.map((targetEntityName) =>
+    ts.factory.createTypeReferenceNode(targetEntityName),
+  );
+  const targetType = targetTypes.length === 1 ? targetTypes[0]! : ts.factory.createUnionTypeNode(targetTypes);
+  if (relation.kind === "1:m" || relation.kind === "m:n") {
+    return ts.factory.createTypeReferenceNode("Collection", [targetType]);
+  }
+  if (relation.kind === "embedded" && getDecoratorOption(relation.decorator, "array")?.kind === ts.SyntaxKind.TrueKeyword) {
+    return ts.factory.createArrayTypeNode(
+      targetTypes.length === 1 ? targetType : ts.factory.createParenthesizedType(targetType),
+    );
+  }
+  return targetType;
+}
+
+/**
+ * Collect entity relations from a source file, including the relations inherited from base classes
  */
 function collectEntityRelations(
   node: ts.Node,
   entityRelations: EntityRelation[],
   entityNames: Set<string>,
+  classDeclarations: ClassDeclarations = new Map(),
 ): void {
-  if (ts.isClassDeclaration(node) && node.name) {
-    const hasEntityDecorator = node.modifiers?.some(
-      (modifier) =>
-        ts.isDecorator(modifier) &&
-        ts.isCallExpression(modifier.expression) &&
-        ts.isIdentifier(modifier.expression.expression) &&
-        modifier.expression.expression.text === "Entity",
-    );
-
-    if (hasEntityDecorator) {
-      const className = node.name.text;
-      entityNames.add(className);
-
-      // Find all property declarations with relation decorators
-      for (const member of node.members) {
-        if (ts.isPropertyDeclaration(member) && member.name && ts.isIdentifier(member.name)) {
-          const propertyName = member.name.text;
-          const propertyType = member.type;
-
-          // Check for ManyToOne or OneToMany decorators
-          const hasManyToOne = member.modifiers?.some(
-            (modifier) =>
-              ts.isDecorator(modifier) &&
-              ts.isCallExpression(modifier.expression) &&
-              ts.isIdentifier(modifier.expression.expression) &&
-              modifier.expression.expression.text === "ManyToOne",
-          );
+  if (ts.isClassDeclaration(node) && node.name && isEntityOrEmbeddable(node)) {
+    const className = node.name.text;
+    entityNames.add(className);
+
+    // Find all property declarations with relation decorators
+    for (const member of getClassProperties(node, classDeclarations)) {
+      if (member.name && ts.isIdentifier(member.name)) {
+        const relation = findRelationDecorator(member);
+        if (!relation) {
+          continue;
+        }
 
-          const hasOneToMany = member.modifiers?.some(
-            (modifier) =>
-              ts.isDecorator(modifier) &&
-              ts.isCallExpression(modifier.expression) &&
-              ts.isIdentifier(modifier.expression.expression) &&
-              modifier.expression.expression.text === "OneToMany",
-          );
+        // Extract the target entity names from the decorator arguments, and fallback to the type annotation
+        let targetEntityNames = getRelationTargets(relation.decorator);
+        if (targetEntityNames.length === 0) {
+          const targetEntityName = getRelationTargetFromProperty(member);
+          targetEntityNames = targetEntityName ? [targetEntityName] : [];
+        }
 
-          if (hasManyToOne || hasOneToMany) {
-            // Extract the target entity name from the type or decorator arguments
-            let targetEntityName: string | null = null;
-
-            // First try to get from decorator arguments
-            if (hasManyToOne) {
-              const manyToOneDecorator = member.modifiers?.find(
-                (modifier) =>
-                  ts.isDecorator(modifier) &&
-                  ts.isCallExpression(modifier.expression) &&
-                  ts.isIdentifier(modifier.expression.expression) &&
-                  modifier.expression.expression.text === "ManyToOne"
-              );
-              if (manyToOneDecorator && 'expression' in manyToOneDecorator && ts.isCallExpression(manyToOneDecorator.expression) &&
-                manyToOneDecorator.expression.arguments.length > 0) {
-                const firstArg = manyToOneDecorator.expression.arguments[0];
-                if (firstArg && ts.isStringLiteral(firstArg)) {
-                  targetEntityName = firstArg.text;
-                }
-              }
-            }
-
-            if (hasOneToMany) {
-              const oneToManyDecorator = member.modifiers?.find(
-                (modifier) =>
-                  ts.isDecorator(modifier) &&
-                  ts.isCallExpression(modifier.expression) &&
-                  ts.isIdentifier(modifier.expression.expression) &&
-                  modifier.expression.expression.text === "OneToMany"
-              );
-              if (oneToManyDecorator && 'expression' in oneToManyDecorator && ts.isCallExpression(oneToManyDecorator.expression) &&
-                oneToManyDecorator.expression.arguments.length > 0) {
-                const firstArg = oneToManyDecorator.expression.arguments[0];
-                if (firstArg && ts.isStringLiteral(firstArg)) {
-                  targetEntityName = firstArg.text;
-                }
-              }
-            }
-
-            // Fallback to type annotation if not found in decorator
-            if (!targetEntityName) {
-              if (propertyType && ts.isTypeReferenceNode(propertyType) && ts.isIdentifier(propertyType.typeName)) {
-                targetEntityName = propertyType.typeName.text;
-              } else if (member.initializer && ts.isNewExpression(member.initializer)) {
-                // Handle Collection<T> initializers
-                const expression = member.initializer.expression;
-                if (ts.isIdentifier(expression) && expression.text === "Collection" &&
-                  member.initializer.typeArguments && member.initializer.typeArguments.length > 0) {
-                  const genericType = member.initializer.typeArguments[0];
-                  if (genericType && ts.isTypeReferenceNode(genericType) && ts.isIdentifier(genericType.typeName)) {
-                    targetEntityName = genericType.typeName.text;
-                  }
-                }
-              }
-            }
-
-            if (targetEntityName && entityNames.has(targetEntityName)) {
-              entityRelations.push({
-                from: className,
-                to: targetEntityName,
-                propertyName,
-                isCollection: !!hasOneToMany,
-              });
-            }
+        for (const targetEntityName of targetEntityNames) {
+          if (entityNames.has(targetEntityName)) {
+            entityRelations.push({
+              from: className,
+              to: targetEntityName,
+              propertyName: member.name.text,
+              kind: relation.kind,
+              isCollection: relation.kind === "1:m" || relation.kind === "m:n",
+            });
           }
         }
       }
@@ -311,22 +455,37 @@ function collectEntityRelations(
   }
 
   ts.forEachChild(node, (childNode) =>
-    collectEntityRelations(childNode, entityRelations, entityNames),
+    collectEntityRelations(childNode, entityRelations, entityNames, classDeclarations),
   );
 }
 
+/**
+ * The generated types of the entity files
+ */
+export interface EntityFileTypes {
+  /** The types of the entities wrapped in `namespace schema` */
+  typesCode: string;
+  /** The files declaring the enums by enum name */
+  enumDefinitions: Map<string, string>;
+  /** The names exported by the files of the enums imported with an alias, by alias, e.g. `Role` for `UserRole` */
+  enumExportNames: Map<string, string>;
+  /** The entity of each generated type by type name, e.g. `User` for `User`, `PartialUser` and `CreateUser` */
+  entityTypeNames: Map<string, string>;
+}
+
 /**
  * Process multiple entity files and generate types with proper entity ID replacement
  */
 export function generateEntityFileTypes(
-  files: Map<string, string>,
+  entityFiles: Map<string, string>,
   options: EntityParseOptions = {},
-): { typesCode: string; enumDefinitions: Map<string, string> } {
+): EntityFileTypes {
+  // Convert the custom decorators to the Mikro-ORM decorators,
+  // and the EntitySchema and defineEntity definitions to decorated entity classes
+  const files = transformEntitySchemas(transformCustomDecorators(entityFiles, options.decorators));
+
   // First pass: collect all entities and their primary key info from all files
-  const entityPrimaryKeys = new Map<
-    string,
-    { fieldName: string; fieldType: ts.TypeNode }
-  >();
+  const entityPrimaryKeys: EntityPrimaryKeys = new Map();
   const sourceFile = ts.createSourceFile(
     "temp.ts",
     Array.from(files.values()).join("\n"),
@@ -334,17 +493,26 @@ export function generateEntityFileTypes(
     true
   );
 
+  // Collect all class declarations to follow the extends chains across files
+  const classDeclarations = collectClassDeclarations(sourceFile);
+
   // Collect all entity names
   const entityNames = new Set<string>();
 
   // Collect all entities from all files
-  visitEntities(sourceFile, entityPrimaryKeys, entityNames);
+  visitEntities(sourceFile, entityPrimaryKeys, entityNames, classDeclarations);
 
   // Collect all entity relations
   const entityRelations: EntityRelation[] = [];
 
   // Then collect entity relations for circular reference detection
-  collectEntityRelations(sourceFile, entityRelations, entityNames);
+  collectEntityRelations(sourceFile, entityRelations, entityNames, classDeclarations);
+
+  // Collect the single table inheritance hierarchies
+  const { discriminatedUnions, discriminators } = collectDiscriminatedUnions(classDeclarations, entityNames);
+
+  // Collect the `as const` objects used as enums, which are replaced by their literal unions
+  const constEnums = collectConstEnums(sourceFile);
 
   // Detect circular references
   const circularReferences = detectCircularReferences(entityRelations, entityNames);
@@ -371,8 +539,44 @@ export function generateEntityFileTypes(
     }
   }
 
+  // Collect the declarations imported from the other modules, e.g. from a shared `enums` or `types` directory.
+  // The enums are declared with the types and imported from their module by the generated code,
+  // and the interfaces, type aliases and classes are declared with the types of the entities.
+  const importedDeclarations = createImportResolver(files, options.compilerOptions ?? defaultCompilerOptions)
+    .collectImportedDeclarations();
+  const importedEnumTypes: string[] = [];
+  const importedTypeDeclarations: string[] = [];
+  const enumExportNames = new Map<string, string>();
+  for (const [name, { filePath, declaration }] of importedDeclarations) {
+    const declarationText = getImportedDeclarationText(name, declaration);
+    if (!ts.isEnumDeclaration(declaration)) {
+      // The type checker inlines the types declared in the other modules instead
+      if (!options.useTypeChecker) {
+        importedTypeDeclarations.push(declarationText);
+      }
+    } else if (!enumDefinitions.has(name)) {
+      enumDefinitions.set(name, filePath);
+      if (declaration.name.text !== name) {
+        enumExportNames.set(name, declaration.name.text);
+      }
+      importedEnumTypes.push(declarationText);
+    }
+  }
+
+  // Resolve the property types with the type checker if enabled
+  const resolvedPropertyTypes: ResolvedPropertyTypes = options.useTypeChecker
+    ? resolvePropertyTypes(
+        files,
+        typeof options.compilerOptions === "function" ? options.compilerOptions() : options.compilerOptions,
+      )
+    : new Map();
+
   // Sort entities by dependency order
   const sortedEntityNames = sortEntitiesByDependency(entityRelations, entityNames);
+  const brokenReferences =
+    options.collections === "output"
+      ? addForwardCollectionReferences(entityRelations, sortedEntityNames, circularReferences)
+      : circularReferences;
 
   // Reorder file contents based on dependency order
   const reorderedFileContents: string[] = [];
@@ -395,17 +599,76 @@ export function generateEntityFileTypes(
 
   // Second pass: process each file with the complete entity map and circular reference info
   const generatedTypes = reorderedFileContents
-    .map((code) => generateEntityTypes(code, entityPrimaryKeys, options, circularReferences))
+    .map((code) =>
+      generateEntityTypes(
+        code,
+        entityPrimaryKeys,
+        options,
+        brokenReferences,
+        resolvedPropertyTypes,
+        classDeclarations,
+        discriminators,
+        constEnums,
+      ),
+    )
     .join("\n");
 
-  // Wrap the generated types in a namespace schema with Collection type definition
-  const typesCode = `export namespace schema {
-export type Collection<T> = { [k: number]: T; };
+  // Convert the imported declarations like the entity files, e.g. the classes to type aliases
+  const importedTypes =
+    importedTypeDeclarations.length > 0
+      ? generateEntityTypes(
+          importedTypeDeclarations.join("\n"),
+          entityPrimaryKeys,
+          options,
+          brokenReferences,
+          resolvedPropertyTypes,
+          classDeclarations,
+          discriminators,
+          constEnums,
+        )
+      : "";
+
+  // Add a discriminated union of the entities of each single table inheritance hierarchy
+  const unionTypes = discriminatedUnions
+    .map(({ root, members }) => `export type ${root}Union = ${members.join(" | ")};`)
+    .join("\n");
 
-${generatedTypes}
-}`;
+  // Wrap the generated types in a namespace schema unless flat
+  const moduleTypes = `${importedEnumTypes.map((enumType) => `${enumType}\n`).join("")}${importedTypes}${generatedTypes}
+${unionTypes}`;
+  const typesCode = options.flat ? moduleTypes : `export namespace schema {\n${moduleTypes}\n}`;
 
-  return { typesCode, enumDefinitions };
+  // Map the generated types to their entity
+  const entityTypeNames = new Map<string, string>();
+  for (const entityName of sortedEntityNames) {
+    entityTypeNames.set(entityName, entityName);
+    entityTypeNames.set(getPartialTypeName(entityName, options.naming), entityName);
+    for (const variant of options.variants ?? []) {
+      entityTypeNames.set(getVariantTypeName(variant, entityName), entityName);
+    }
+  }
+  for (const { root } of discriminatedUnions) {
+    entityTypeNames.set(`${root}Union`, root);
+  }
+
+  return { typesCode, enumDefinitions, enumExportNames, entityTypeNames };
+}
+
+/**
+ * Get the text of an imported declaration, exported and named with its local name,
+ * e.g. `export enum UserRole { ... }` for `import { Role as UserRole } from "../enums"`
+ */
+function getImportedDeclarationText(name: string, declaration: ImportableDeclaration): string {
+  const isExported = declaration.modifiers?.some((modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword);
+  const text = declaration.getText();
+  const declarationName = declaration.name;
+  const namedText =
+    declarationName && declarationName.text !== name
+      ? text.slice(0, declarationName.getStart() - declaration.getStart()) +
+        name +
+        text.slice(declarationName.end - declaration.getStart())
+      : text;
+  return `${isExported ? "" : "export "}${namedText}`;
 }
 
 // Collect enum declarations from this file
@@ -422,12 +685,13 @@ function enumVisitor(node: ts.Node, filePath: string, enumDefinitions: Map<strin
  */
 export function generateEntityTypes(
   code: string,
-  entityPrimaryKeys: Map<
-    string,
-    { fieldName: string; fieldType: ts.TypeNode }
-  > = new Map(),
+  entityPrimaryKeys: EntityPrimaryKeys = new Map(),
   options: EntityParseOptions = {},
   circularReferences: Map<string, Set<string>> = new Map(),
+  resolvedPropertyTypes: ResolvedPropertyTypes = new Map(),
+  classDeclarations: ClassDeclarations = new Map(),
+  discriminators: Map<string, Discriminator> = new Map(),
+  constEnums: ConstEnums = new Map(),
 ): string {
   const sourceFile = ts.createSourceFile(
     "temp.ts",
@@ -436,6 +700,10 @@ export function generateEntityTypes(
     true,
   );
 
+  // Follow the extends chains to the classes of this file and of the other files
+  const fileClassDeclarations = collectClassDeclarations(sourceFile, new Map(classDeclarations));
+  const fileConstEnums = collectConstEnums(sourceFile, new Map(constEnums));
+
   // Collect imports and their symbols
   const importNodes = new Set<ts.Node>();
   const importedSymbols = new Set<string>();
@@ -446,7 +714,7 @@ export function generateEntityTypes(
   visitCalls(sourceFile, importedSymbols, callExpressionsToRemove);
 
   // Collect entity classes and their primary key info from this file
-  visitEntities(sourceFile, entityPrimaryKeys);
+  visitEntities(sourceFile, entityPrimaryKeys, undefined, fileClassDeclarations);
 
   // Apply the transformer
   const result = ts.transform(sourceFile, [
@@ -458,6 +726,10 @@ export function generateEntityTypes(
         entityPrimaryKeys,
         options,
         circularReferences,
+        resolvedPropertyTypes,
+        fileClassDeclarations,
+        discriminators,
+        fileConstEnums,
       ),
   ]);
   const transformedSourceFile = result.transformed[0];
@@ -544,52 +816,68 @@ function visitCalls(
  */
 function createPartialEntityType(
   entityName: string,
-  primaryKeyInfo: { fieldName: string; fieldType: ts.TypeNode },
+  primaryKeyFields: PrimaryKeyField[],
   allProperties: ts.PropertySignature[],
+  naming?: NamingOptions,
 ): ts.TypeAliasDeclaration {
   // Create the partial type with required ID and optional other properties
+  const primaryKeyFieldNames = new Set(primaryKeyFields.map((primaryKeyField) => primaryKeyField.fieldName));
   const partialProperties = allProperties.map((prop) => {
     if (
       ts.isPropertySignature(prop) &&
       ts.isIdentifier(prop.name) &&
-      prop.name.text === primaryKeyInfo.fieldName
+      primaryKeyFieldNames.has(prop.name.text)
     ) {
-      // Keep the primary key as required
+      // Keep the primary key fields as required
       return prop;
     } else {
-      // Make all other properties optional
-      return ts.factory.createPropertySignature(
-        prop.modifiers,
-        prop.name,
-        ts.factory.createToken(ts.SyntaxKind.QuestionToken), // Add ? to make optional
-        prop.type,
+      // Make all other properties optional, keeping their constraints
+      return ts.setSyntheticLeadingComments(
+        ts.factory.createPropertySignature(
+          prop.modifiers,
+          prop.name,
+          ts.factory.createToken(ts.SyntaxKind.QuestionToken), // Add ? to make optional
+          prop.type,
+        ),
+        ts.getSyntheticLeadingComments(prop),
       );
     }
   });
 
   return ts.factory.createTypeAliasDeclaration(
     [ts.factory.createModifier(ts.SyntaxKind.ExportKeyword)],
-    `Partial${entityName}`,
+    getPartialTypeName(entityName, naming),
     undefined,
     ts.factory.createTypeLiteralNode(partialProperties),
   );
 }
 
 /**
- * Create an inline object type with just the primary key field for deep references
+ * Create an inline object type with just the primary key fields for deep references.
+ * Primary key fields which are relations are replaced with the primary key objects of the related entities.
  */
-function createPrimaryKeyObjectType(primaryKeyInfo: {
-  fieldName: string;
-  fieldType: ts.TypeNode;
-}): ts.TypeLiteralNode {
-  return ts.factory.createTypeLiteralNode([
-    ts.factory.createPropertySignature(
-      undefined,
-      primaryKeyInfo.fieldName,
-      undefined,
-      primaryKeyInfo.fieldType,
-    ),
-  ]);
+function createPrimaryKeyObjectType(
+  primaryKeyFields: PrimaryKeyField[],
+  entityPrimaryKeys: EntityPrimaryKeys,
+  visitedEntities: Set<string> = new Set(),
+): ts.TypeLiteralNode {
+  return ts.factory.createTypeLiteralNode(
+    primaryKeyFields.map((primaryKeyField) => {
+      let fieldType = primaryKeyField.fieldType;
+      if (ts.isTypeReferenceNode(fieldType) && ts.isIdentifier(fieldType.typeName)) {
+        const entityName = fieldType.typeName.text;
+        const relatedPrimaryKeyFields = entityPrimaryKeys.get(entityName);
+        if (relatedPrimaryKeyFields && !visitedEntities.has(entityName)) {
+          fieldType = createPrimaryKeyObjectType(
+            relatedPrimaryKeyFields,
+            entityPrimaryKeys,
+            new Set([...visitedEntities, entityName]),
+          );
+        }
+      }
+      return ts.factory.createPropertySignature(undefined, primaryKeyField.fieldName, undefined, fieldType);
+    }),
+  );
 }
 
 /**
@@ -597,9 +885,10 @@ function createPrimaryKeyObjectType(primaryKeyInfo: {
  */
 export function replaceEntityTypeWithPartialType(
   type: ts.TypeNode,
-  entityPrimaryKeys: Map<string, { fieldName: string; fieldType: ts.TypeNode }>,
+  entityPrimaryKeys: EntityPrimaryKeys,
   circularReferences: Map<string, Set<string>> = new Map(),
   currentEntity?: string,
+  options: EntityParseOptions = {},
 ): ts.TypeNode {
   if (ts.isTypeReferenceNode(type) && ts.isIdentifier(type.typeName)) {
     const entityName = type.typeName.text;
@@ -609,11 +898,15 @@ export function replaceEntityTypeWithPartialType(
       if (currentEntity && circularReferences.has(currentEntity) &&
         circularReferences.get(currentEntity)!.has(entityName)) {
         // Break the circular reference by inlining the primary key object
-        return createPrimaryKeyObjectType(primaryKeyInfo);
+        return createPrimaryKeyObjectType(primaryKeyInfo, entityPrimaryKeys, new Set([entityName]));
       }
 
       return ts.factory.createTypeReferenceNode(
-        ts.factory.createIdentifier(`schema.Partial${entityName}`),
+        ts.factory.createIdentifier(
+          options.flat
+            ? getPartialTypeName(entityName, options.naming)
+            : `schema.${getPartialTypeName(entityName, options.naming)}`,
+        ),
         undefined,
       );
     }
@@ -626,24 +919,72 @@ export function replaceEntityTypeWithPartialType(
  */
 export function replaceEntityTypeWithPrimaryKey(
   type: ts.TypeNode,
-  entityPrimaryKeys: Map<string, { fieldName: string; fieldType: ts.TypeNode }>,
+  entityPrimaryKeys: EntityPrimaryKeys,
 ): ts.TypeNode {
   if (ts.isTypeReferenceNode(type) && ts.isIdentifier(type.typeName)) {
     const entityName = type.typeName.text;
     const primaryKeyInfo = entityPrimaryKeys.get(entityName);
     if (primaryKeyInfo) {
-      return createPrimaryKeyObjectType(primaryKeyInfo);
+      return createPrimaryKeyObjectType(primaryKeyInfo, entityPrimaryKeys, new Set([entityName]));
     }
   }
   return type;
 }
 
 /**
- * Transform Collection<T> to Array<T> and replace entity types in generic arguments based on usePartialTypes option
+ * Create the array type of a collection relation from its item type:
+ * - the IDs or the references of the entities for the `input` semantics, e.g. `Array<number | schema.PartialPost>`
+ * - the serialized entities for the `output` semantics, e.g. `Array<schema.Post>`,
+ *   or their references when the relation breaks a circular reference
+ */
+export function createCollectionType(
+  itemType: ts.TypeNode,
+  entityPrimaryKeys: EntityPrimaryKeys,
+  options: EntityParseOptions,
+  circularReferences: Map<string, Set<string>> = new Map(),
+  currentEntity?: string,
+): ts.TypeNode {
+  const referenceType = options.usePartialTypes
+    ? replaceEntityTypeWithPartialType(itemType, entityPrimaryKeys, circularReferences, currentEntity, options)
+    : replaceEntityTypeWithPrimaryKey(itemType, entityPrimaryKeys);
+  const entityName =
+    ts.isTypeReferenceNode(itemType) && ts.isIdentifier(itemType.typeName) ? itemType.typeName.text : undefined;
+  const primaryKeyFields = entityName !== undefined ? entityPrimaryKeys.get(entityName) : undefined;
+  if (entityName === undefined || primaryKeyFields === undefined) {
+    return ts.factory.createTypeReferenceNode("Array", [itemType]);
+  }
+
+  if (options.collections === "output") {
+    const isCircularReference =
+      entityName === currentEntity ||
+      (currentEntity !== undefined && circularReferences.get(currentEntity)?.has(entityName));
+    const serializedType = isCircularReference
+      ? referenceType
+      : ts.factory.createTypeReferenceNode(options.flat ? entityName : `schema.${entityName}`);
+    return ts.factory.createTypeReferenceNode("Array", [serializedType]);
+  }
+
+  // Accept the IDs of the entities with a single primary key which is not a relation
+  const [primaryKeyField] = primaryKeyFields;
+  const primaryKeyType = primaryKeyFields.length === 1 ? primaryKeyField?.fieldType : undefined;
+  const isIdentifier =
+    primaryKeyType !== undefined &&
+    !(
+      ts.isTypeReferenceNode(primaryKeyType) &&
+      ts.isIdentifier(primaryKeyType.typeName) &&
+      entityPrimaryKeys.has(primaryKeyType.typeName.text)
+    );
+  return ts.factory.createTypeReferenceNode("Array", [
+    isIdentifier ? ts.factory.createUnionTypeNode([primaryKeyType, referenceType]) : referenceType,
+  ]);
+}
+
+/**
+ * Transform Collection<T> to an array of the references or of the serialized entities, based on the collections option
  */
 function transformCollectionType(
   type: ts.TypeNode,
-  entityPrimaryKeys: Map<string, { fieldName: string; fieldType: ts.TypeNode }>,
+  entityPrimaryKeys: EntityPrimaryKeys,
   options: EntityParseOptions,
   circularReferences: Map<string, Set<string>> = new Map(),
   currentEntity?: string,
@@ -653,35 +994,10 @@ function transformCollectionType(
     ts.isIdentifier(type.typeName) &&
     type.typeName.text === "Collection"
   ) {
-    if (type.typeArguments !== undefined && type.typeArguments.length > 0) {
-      // Replace entity types in the generic arguments based on the usePartialTypes option
-      const transformedTypeArgs = type.typeArguments.map((typeArg) => {
-        return options.usePartialTypes ?
-          replaceEntityTypeWithPartialType(typeArg, entityPrimaryKeys, circularReferences, currentEntity) :
-          replaceEntityTypeWithPrimaryKey(typeArg, entityPrimaryKeys);
-      });
-      return ts.factory.createUnionTypeNode([
-        ts.factory.createTypeReferenceNode(
-          ts.factory.createIdentifier("Collection"),
-          transformedTypeArgs,
-        ),
-        ts.factory.createTypeReferenceNode(
-          ts.factory.createIdentifier("Array"),
-          transformedTypeArgs,
-        ),
-      ]);
-    } else {
-      return ts.factory.createUnionTypeNode([
-        ts.factory.createTypeReferenceNode(
-          ts.factory.createIdentifier("Collection"),
-          type.typeArguments,
-        ),
-        ts.factory.createTypeReferenceNode(
-          ts.factory.createIdentifier("Array"),
-          type.typeArguments,
-        ),
-      ]);
-    }
+    const [itemType] = type.typeArguments ?? [];
+    return itemType
+      ? createCollectionType(itemType, entityPrimaryKeys, options, circularReferences, currentEntity)
+      : ts.factory.createTypeReferenceNode("Array", [ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword)]);
   }
   return type;
 }
@@ -691,12 +1007,30 @@ function transformCollectionType(
  */
 export function transformTypeNode(
   type: ts.TypeNode,
-  entityPrimaryKeys: Map<string, { fieldName: string; fieldType: ts.TypeNode }>,
+  entityPrimaryKeys: EntityPrimaryKeys,
   options: EntityParseOptions,
   circularReferences: Map<string, Set<string>> = new Map(),
   currentEntity?: string,
 ): ts.TypeNode {
-  // First try to replace Collection<T> with Array<T>
+  // Transform each member of unions like `Profile | null` (nullable single references)
+  if (ts.isUnionTypeNode(type)) {
+    return ts.factory.updateUnionTypeNode(
+      type,
+      ts.factory.createNodeArray(
+        type.types.map((unionMember) =>
+          transformTypeNode(unionMember, entityPrimaryKeys, options, circularReferences, currentEntity),
+        ),
+      ),
+    );
+  }
+
+  // Unwrap the references like `Ref<User>` to the referenced entity
+  const referencedType = unwrapReferenceType(type);
+  if (referencedType) {
+    return transformTypeNode(referencedType, entityPrimaryKeys, options, circularReferences, currentEntity);
+  }
+
+  // First try to replace Collection<T> with an array
   const collectionTransformed = transformCollectionType(
     type,
     entityPrimaryKeys,
@@ -715,6 +1049,7 @@ export function transformTypeNode(
       entityPrimaryKeys,
       circularReferences,
       currentEntity,
+      options,
     );
   } else {
     return replaceEntityTypeWithPrimaryKey(
@@ -724,26 +1059,72 @@ export function transformTypeNode(
   }
 }
 
+/**
+ * Get the property names of a `[PrimaryKeyProp]?: "id"` or `[PrimaryKeyProp]?: ["order", "product"]` declaration
+ */
+function getPrimaryKeyPropNames(properties: ts.PropertyDeclaration[]): string[] | undefined {
+  const primaryKeyProp = properties.find(
+    (member) =>
+      ts.isComputedPropertyName(member.name) &&
+      ts.isIdentifier(member.name.expression) &&
+      member.name.expression.text === "PrimaryKeyProp",
+  );
+  if (!primaryKeyProp?.type) {
+    return undefined;
+  }
+  const elementTypes = ts.isTupleTypeNode(primaryKeyProp.type) ? primaryKeyProp.type.elements : [primaryKeyProp.type];
+  const propertyNames = elementTypes.flatMap((elementType) =>
+    ts.isLiteralTypeNode(elementType) && ts.isStringLiteral(elementType.literal) ? [elementType.literal.text] : [],
+  );
+  return propertyNames.length > 0 ? propertyNames : undefined;
+}
+
+/**
+ * Get the primary key fields of an entity from its properties:
+ * the properties named by `[PrimaryKeyProp]` if declared, otherwise the `@PrimaryKey()` properties
+ * and the relations declared with `primary: true` (e.g. `@ManyToOne(() => Order, { primary: true })`).
+ * The type of relation keys is the related entity, which is referenced by its own primary key.
+ */
+function getPrimaryKeyFields(properties: ts.PropertyDeclaration[]): PrimaryKeyField[] {
+  const primaryKeyPropNames = getPrimaryKeyPropNames(properties);
+  const primaryKeyProperties = primaryKeyPropNames
+    ? primaryKeyPropNames.flatMap((propertyName) =>
+      properties.filter((member) => ts.isIdentifier(member.name) && member.name.text === propertyName),
+    )
+    : properties.filter(
+      (member) =>
+        findDecorator(member, "PrimaryKey") ||
+        (findRelationDecorator(member) && getPropertyOption(member, "primary")?.kind === ts.SyntaxKind.TrueKeyword),
+    );
+
+  const primaryKeyFields: PrimaryKeyField[] = [];
+  for (const member of primaryKeyProperties) {
+    const annotatedType = member.type && removePropertyTypeMarkers(member.type);
+    const fieldType = (annotatedType && (unwrapReferenceType(annotatedType) ?? annotatedType)) ??
+      inferTypeFromRelationDecorator(member);
+    if (fieldType && ts.isIdentifier(member.name)) {
+      // The primary key type is printed in the files of the entities referencing it
+      primaryKeyFields.push({ fieldName: member.name.text, fieldType: detachNode(fieldType) });
+    }
+  }
+  return primaryKeyFields;
+}
 
 /**
- * Collect entity classes and their primary key info
+ * Collect entity classes and their primary key info.
+ * Embeddables are collected as entity names without primary keys, so they get no partial types.
  */
 function visitEntities(
   node: ts.Node,
-  entityPrimaryKeys: Map<string, { fieldName: string; fieldType: ts.TypeNode }>,
+  entityPrimaryKeys: EntityPrimaryKeys,
   entityNames?: Set<string>,
+  classDeclarations: ClassDeclarations = new Map(),
 ): void {
-  if (ts.isClassDeclaration(node) && node.name) {
+  if (ts.isClassDeclaration(node) && node.name && findDecorator(node, "Embeddable")) {
+    entityNames?.add(node.name.text);
+  } else if (ts.isClassDeclaration(node) && node.name) {
     // Check if the class has @Entity() decorator
-    const hasEntityDecorator = node.modifiers?.some(
-      (modifier) =>
-        ts.isDecorator(modifier) &&
-        ts.isCallExpression(modifier.expression) &&
-        ts.isIdentifier(modifier.expression.expression) &&
-        modifier.expression.expression.text === "Entity",
-    );
-
-    if (hasEntityDecorator) {
+    if (findDecorator(node, "Entity")) {
       const className = node.name.text;
 
       // Add to entity names set if provided
@@ -751,36 +1132,106 @@ function visitEntities(
         entityNames.add(className);
       }
 
-      // Find the @PrimaryKey() property to get the field name and type
-      const primaryKeyProperty = node.members.find(
-        (member) =>
-          ts.isPropertyDeclaration(member) &&
-          member.modifiers?.some(
-            (modifier) =>
-              ts.isDecorator(modifier) &&
-              ts.isCallExpression(modifier.expression) &&
-              ts.isIdentifier(modifier.expression.expression) &&
-              modifier.expression.expression.text === "PrimaryKey",
-          ),
-      );
-
-      if (
-        primaryKeyProperty &&
-        ts.isPropertyDeclaration(primaryKeyProperty) &&
-        primaryKeyProperty.type &&
-        primaryKeyProperty.name &&
-        ts.isIdentifier(primaryKeyProperty.name)
-      ) {
-        entityPrimaryKeys.set(className, {
-          fieldName: primaryKeyProperty.name.text,
-          fieldType: primaryKeyProperty.type,
-        });
+      // Find the primary key properties to get the field names and types, which might be declared in a base class
+      const primaryKeyFields = getPrimaryKeyFields(getClassProperties(node, classDeclarations));
+      if (primaryKeyFields.length > 0) {
+        entityPrimaryKeys.set(className, primaryKeyFields);
       }
     }
   }
 
   ts.forEachChild(node, (childNode) =>
-    visitEntities(childNode, entityPrimaryKeys, entityNames),
+    visitEntities(childNode, entityPrimaryKeys, entityNames, classDeclarations),
+  );
+}
+
+/**
+ * Create the property signature of a class property declaration:
+ * - resolve its type from the type annotation, the type checker, the relation decorator or the initializer
+ * - replace entities and collections in the type
+ * - map the decorator options to nullable unions and validation constraints
+ */
+function createPropertySignatureFromDeclaration(
+  member: ts.PropertyDeclaration,
+  className: string,
+  resolvedProperties: Map<string, ResolvedPropertyType> | undefined,
+  entityPrimaryKeys: EntityPrimaryKeys,
+  options: EntityParseOptions,
+  circularReferences: Map<string, Set<string>>,
+  constEnums: ConstEnums,
+): ts.PropertySignature | undefined {
+  if (!ts.isIdentifier(member.name)) {
+    return undefined;
+  }
+  const propertyName = member.name.text;
+  const resolvedProperty = resolvedProperties?.get(propertyName);
+
+  // Transform the type annotation by replacing entities and collections, without the `Opt` and `Hidden` markers.
+  // The type resolved by the type checker replaces annotations that reference types declared in other modules.
+  const annotatedType = resolvedProperty?.inlined
+    ? resolvedProperty.type
+    : member.type && removePropertyTypeMarkers(member.type);
+  let type = annotatedType && transformTypeNode(annotatedType, entityPrimaryKeys, options, circularReferences, className);
+
+  // Narrow the enum properties to the items of their decorator, e.g. `@Enum({ items: ["a", "b"] })`
+  type = getEnumPropertyType(member, type, constEnums);
+
+  // If no explicit type annotation, infer relation and embedded types from the decorator
+  // (e.g. `new Collection(this)` without a type argument, or `@Embedded(() => Address, { array: true })`)
+  if (!type) {
+    const relationType = inferTypeFromRelationDecorator(member);
+    if (relationType) {
+      type = transformTypeNode(relationType, entityPrimaryKeys, options, circularReferences, className);
+    }
+  }
+
+  // Then use the type resolved by the type checker (e.g. `createdAt = new Date()` becomes `Date`)
+  if (!type && resolvedProperty) {
+    type = transformTypeNode(resolvedProperty.type, entityPrimaryKeys, options, circularReferences, className);
+  }
+
+  // Otherwise try to infer from initializer (the inferred type is already transformed)
+  if (!type && member.initializer) {
+    type = inferTypeFromInitializer(
+      member.initializer,
+      entityPrimaryKeys,
+      options,
+      circularReferences,
+      className,
+    );
+  }
+
+  // Fallback to any if we still don't have a type
+  if (!type) {
+    type = ts.factory.createKeywordTypeNode(
+      ts.SyntaxKind.AnyKeyword,
+    );
+  }
+
+  // Map the decorator options to nullable unions and validation constraints
+  if (isNullableProperty(member)) {
+    type = createNullableType(type);
+  }
+
+  // Map the runtime values to their JSON representation, e.g. `Date` to date-time strings
+  let serializationConstraints: Record<string, unknown> = {};
+  if (options.serialization === "json") {
+    serializationConstraints = getSerializedTypeConstraints(member, type);
+    type = serializeType(type);
+  }
+
+  // Computed and lazy properties might be missing from the entities
+  const questionToken = member.questionToken ??
+    (isOptionalEntityProperty(member) ? ts.factory.createToken(ts.SyntaxKind.QuestionToken) : undefined);
+
+  return addConstraintsComment(
+    ts.factory.createPropertySignature(
+      undefined,
+      propertyName,
+      questionToken,
+      type,
+    ),
+    { ...serializationConstraints, ...getPropertyConstraints(member, type) },
   );
 }
 
@@ -798,9 +1249,13 @@ const transformer = (
   context: ts.TransformationContext,
   importNodes: Set<ts.Node>,
   callExpressionsToRemove: Set<ts.Node>,
-  entityPrimaryKeys: Map<string, { fieldName: string; fieldType: ts.TypeNode }>,
+  entityPrimaryKeys: EntityPrimaryKeys,
   options: EntityParseOptions,
   circularReferences: Map<string, Set<string>>,
+  resolvedPropertyTypes: ResolvedPropertyTypes,
+  classDeclarations: ClassDeclarations,
+  discriminators: Map<string, Discriminator>,
+  constEnums: ConstEnums,
 ) => {
   return (sourceFile: ts.SourceFile) => {
     const visitor = (node: ts.Node, currentEntity?: string): ts.Node | ts.Node[] | undefined => {
@@ -818,49 +1273,61 @@ const transformer = (
       if (ts.isClassDeclaration(node) && node.name) {
         const className = node.name.text;
 
-        // Extract property signatures from the class
-        const propertySignatures = node.members
-          .filter((member) => ts.isPropertyDeclaration(member))
-          .map((member) => {
-            if (
-              ts.isPropertyDeclaration(member) &&
-              member.name &&
-              ts.isIdentifier(member.name)
-            ) {
-              const propertyName = member.name.text;
-              let type = member.type;
-
-              // If no explicit type annotation, try to infer from initializer
-              if (!type && member.initializer) {
-                type = inferTypeFromInitializer(
-                  member.initializer,
-                  entityPrimaryKeys,
-                  options,
-                  circularReferences,
-                  className,
-                );
-              }
-
-              // Fallback to any if we still don't have a type
-              if (!type) {
-                type = ts.factory.createKeywordTypeNode(
-                  ts.SyntaxKind.AnyKeyword,
-                );
-              }
-
-              // Transform the type by replacing entities and collections
-              type = transformTypeNode(type, entityPrimaryKeys, options, circularReferences, className);
-
-              return ts.factory.createPropertySignature(
-                undefined,
-                propertyName,
-                member.questionToken,
-                type,
-              );
-            }
-            return null;
-          })
-          .filter((item): item is ts.PropertySignature => item !== null);
+        // Extract property signatures from the class and its base classes.
+        // The inherited declarations are detached, as they belong to the source files of the base classes.
+        const resolvedProperties = resolvedPropertyTypes.get(className);
+        const classProperties = getClassProperties(node, classDeclarations);
+        const classPropertyNames = new Set(classProperties.map((member) => member.name.getText()));
+
+        // Add the members inherited from the base classes which are only resolved by the type checker
+        // (e.g. base classes declared outside the entity files)
+        const checkerProperties = Array.from(resolvedProperties?.entries() ?? [])
+          .filter(([propertyName, resolvedProperty]) =>
+            resolvedProperty.inherited && !classPropertyNames.has(propertyName),
+          )
+          .map(([, resolvedProperty]) => resolvedProperty.declaration);
+
+        const properties: EntityProperty[] = [];
+        for (const member of [...checkerProperties, ...classProperties]) {
+          const declaration = member.parent === node ? member : detachNode(member);
+          const signature = createPropertySignatureFromDeclaration(
+            declaration,
+            className,
+            resolvedProperties,
+            entityPrimaryKeys,
+            options,
+            circularReferences,
+            constEnums,
+          );
+          // Skip the properties excluded by the options
+          if (
+            signature &&
+            !(ts.isIdentifier(signature.name) &&
+              matchesPropertyPattern(options.exclude ?? [], className, signature.name.text))
+          ) {
+            properties.push({ declaration, signature });
+          }
+        }
+
+        // Narrow the discriminator of the entities of single table inheritance hierarchies to their value
+        const discriminator = discriminators.get(className);
+        if (discriminator) {
+          const discriminatorSignature = ts.factory.createPropertySignature(
+            undefined,
+            discriminator.propertyName,
+            undefined,
+            ts.factory.createLiteralTypeNode(ts.factory.createStringLiteral(discriminator.value)),
+          );
+          const discriminatorProperty = properties.find(
+            ({ signature }) => ts.isIdentifier(signature.name) && signature.name.text === discriminator.propertyName,
+          );
+          if (discriminatorProperty) {
+            discriminatorProperty.signature = discriminatorSignature;
+          } else {
+            properties.push({ signature: discriminatorSignature });
+          }
+        }
+        const propertySignatures = properties.map(({ signature }) => signature);
 
         // Create the main entity type
         const mainType = ts.factory.createTypeAliasDeclaration(
@@ -870,20 +1337,45 @@ const transformer = (
           ts.factory.createTypeLiteralNode(propertySignatures),
         );
 
+        const entityTypes: ts.TypeAliasDeclaration[] = [mainType];
+        const primaryKeyInfo = entityPrimaryKeys.get(className);
+
         // Create the partial type if this is an entity with a primary key and usePartialTypes is true
-        if (options.usePartialTypes) {
-          const primaryKeyInfo = entityPrimaryKeys.get(className);
-          if (primaryKeyInfo) {
-            const partialType = createPartialEntityType(
+        if (options.usePartialTypes && primaryKeyInfo) {
+          entityTypes.push(createPartialEntityType(className, primaryKeyInfo, propertySignatures, options.naming));
+        }
+
+        // Create the DTO variants of the entities
+        if (options.variants && primaryKeyInfo) {
+          entityTypes.push(
+            ...createEntityVariantTypes(
               className,
-              primaryKeyInfo,
-              propertySignatures,
-            );
-            return [mainType, partialType];
-          }
+              properties,
+              primaryKeyInfo.map((primaryKeyField) => primaryKeyField.fieldName),
+              options.variants,
+              options.include,
+            ),
+          );
         }
 
-        return mainType;
+        return entityTypes.length === 1 ? mainType : entityTypes;
+      }
+
+      // Replace the `as const` objects used as enums with the literal unions of their value types
+      if (ts.isVariableStatement(node) && isConstEnumStatement(node, constEnums)) {
+        return undefined;
+      }
+      if (ts.isTypeAliasDeclaration(node)) {
+        const constEnumName = getConstEnumValueTypeName(node.type, constEnums);
+        if (constEnumName) {
+          return ts.factory.updateTypeAliasDeclaration(
+            node,
+            node.modifiers,
+            node.name,
+            node.typeParameters,
+            constEnums.get(constEnumName)!,
+          );
+        }
       }
 
       // Remove variable declarations with initializers
@@ -0,0 +1,120 @@
+import * as ts from "typescript";
+import { getColumnType, getLiteralValue } from "./constraints.js";
+import { getPropertyOption } from "./decorators.js";
+
+/**
+ * The representations of the property values
+ * - `runtime`: the values of the entities, e.g. `Date`, `bigint` and `Buffer`
+ * - `json`: the values serialized to JSON, e.g. date-time strings, digit strings and base64 strings
+ */
+export const serializationModes = ["runtime", "json"] as const;
+
+export type SerializationMode = (typeof serializationModes)[number];
+
+/**
+ * The pattern of the base64 strings of the binary values
+ */
+const base64Pattern = "^[A-Za-z0-9+/]*={0,2}$";
+
+/**
+ * The binary types serialized as base64 strings
+ */
+const binaryTypeNames = new Set(["Buffer", "Uint8Array"]);
+
+/**
+ * The string formats of the date, time and uuid columns, e.g. `@Property({ type: "uuid" })` or `@Property({ type: DateType })`
+ */
+const columnTypeFormats: Record<string, string> = {
+  uuid: "uuid",
+  date: "date",
+  time: "time",
+  datetime: "date-time",
+  timestamp: "date-time",
+  timestamptz: "date-time",
+};
+
+/**
+ * Get the name of a type reference like `Date`, or undefined for the other types
+ */
+function getTypeReferenceName(type: ts.TypeNode): string | undefined {
+  return ts.isTypeReferenceNode(type) && ts.isIdentifier(type.typeName) ? type.typeName.text : undefined;
+}
+
+/**
+ * Get the type of a property without `null` and `undefined`, or undefined for the unions of several types
+ */
+function getNonNullableType(type: ts.TypeNode): ts.TypeNode | undefined {
+  if (ts.isParenthesizedTypeNode(type)) {
+    return getNonNullableType(type.type);
+  }
+  if (ts.isUnionTypeNode(type)) {
+    const nonNullTypes = type.types.filter(
+      (unionMember) =>
+        unionMember.kind !== ts.SyntaxKind.UndefinedKeyword &&
+        !(ts.isLiteralTypeNode(unionMember) && unionMember.literal.kind === ts.SyntaxKind.NullKeyword),
+    );
+    return nonNullTypes.length === 1 ? getNonNullableType(nonNullTypes[0]!) : undefined;
+  }
+  return type;
+}
+
+/**
+ * Replace the runtime types with the types of their JSON representation, in the nested arrays, unions and objects:
+ * - `Date` with date-time strings
+ * - `bigint` with digit strings
+ * - `Buffer` and `Uint8Array` with base64 strings
+ * The JSON properties (e.g. `@Property({ type: JsonType })`) keep their type, as they are serialized as is.
+ */
+export function serializeType(type: ts.TypeNode): ts.TypeNode {
+  const result = ts.transform(type, [
+    (context) => (rootNode) => {
+      const visitor = (node: ts.Node): ts.Node => {
+        const typeName = ts.isTypeNode(node) ? getTypeReferenceName(node) : undefined;
+        if (
+          node.kind === ts.SyntaxKind.BigIntKeyword ||
+          typeName === "Date" ||
+          (typeName !== undefined && binaryTypeNames.has(typeName))
+        ) {
+          return ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword);
+        }
+        return ts.visitEachChild(node, visitor, context);
+      };
+      return ts.visitNode(rootNode, visitor) as ts.TypeNode;
+    },
+  ]);
+  const [serializedType] = result.transformed;
+  result.dispose();
+  return serializedType ?? type;
+}
+
+/**
+ * Get the constraints of the JSON representation of a property from its runtime type and its column type:
+ * - `format: "date-time"` for the dates, and the `date`, `time` and `uuid` formats of the string columns
+ * - digit `pattern`s for the bigints
+ * - `contentEncoding: "base64"` and a base64 `pattern` for the binary values
+ */
+export function getSerializedTypeConstraints(
+  member: ts.PropertyDeclaration,
+  type: ts.TypeNode,
+): Record<string, unknown> {
+  const nonNullableType = getNonNullableType(type);
+  if (!nonNullableType) {
+    return {};
+  }
+  const typeName = getTypeReferenceName(nonNullableType);
+  if (typeName === "Date") {
+    return { format: "date-time" };
+  }
+  if (nonNullableType.kind === ts.SyntaxKind.BigIntKeyword) {
+    const unsigned = getLiteralValue(getPropertyOption(member, "unsigned")) === true;
+    return { pattern: unsigned ? "^\\d+$" : "^-?\\d+$" };
+  }
+  if (typeName !== undefined && binaryTypeNames.has(typeName)) {
+    return { contentEncoding: "base64", pattern: base64Pattern };
+  }
+  const format = columnTypeFormats[getColumnType(member) ?? ""];
+  if (nonNullableType.kind === ts.SyntaxKind.StringKeyword && format !== undefined) {
+    return { format };
+  }
+  return {};
+}
@@ -0,0 +1,285 @@
+import * as ts from "typescript";
+
+/**
+ * The file name of the barrel module re-exporting the modules of the entities
+ */
+export const barrelFileName = "index.ts";
+
+/**
+ * Get the file names of the modules re-exported by a barrel module, e.g. `User.ts` for `export * from "./User.js";`
+ */
+export function getBarrelModuleFileNames(barrelCode: string): string[] {
+  const sourceFile = ts.createSourceFile(barrelFileName, barrelCode, ts.ScriptTarget.Latest, true);
+  return sourceFile.statements.flatMap((statement) =>
+    ts.isExportDeclaration(statement) &&
+    statement.moduleSpecifier &&
+    ts.isStringLiteral(statement.moduleSpecifier) &&
+    /^\.\/[^/]+\.js$/.test(statement.moduleSpecifier.text)
+      ? [`${statement.moduleSpecifier.text.slice(2, -3)}.ts`]
+      : [],
+  );
+}
+
+/**
+ * The prefix of the declarations flattened from `namespace schema` by the model based libraries, e.g. `schema_User`
+ */
+const namespacePrefix = "schema_";
+
+/**
+ * Get the names declared by a statement of the validator code
+ */
+function getDeclaredNames(statement: ts.Statement): string[] {
+  if (ts.isVariableStatement(statement)) {
+    return statement.declarationList.declarations.flatMap((declaration) =>
+      ts.isIdentifier(declaration.name) ? [declaration.name.text] : [],
+    );
+  }
+  if (
+    (ts.isTypeAliasDeclaration(statement) ||
+      ts.isInterfaceDeclaration(statement) ||
+      ts.isEnumDeclaration(statement) ||
+      ts.isFunctionDeclaration(statement) ||
+      ts.isClassDeclaration(statement)) &&
+    statement.name
+  ) {
+    return [statement.name.text];
+  }
+  return [];
+}
+
+/**
+ * Whether a node is a reference to a declaration of `namespace schema`, e.g. `schema.PartialUser`
+ */
+function isNamespaceReference(node: ts.Node): node is ts.PropertyAccessExpression | ts.QualifiedName {
+  if (ts.isPropertyAccessExpression(node)) {
+    return ts.isIdentifier(node.expression) && node.expression.text === "schema";
+  }
+  return ts.isQualifiedName(node) && ts.isIdentifier(node.left) && node.left.text === "schema";
+}
+
+/**
+ * Collect the names referenced by a node, except the property names
+ */
+function collectReferencedNames(node: ts.Node, names: Set<string>) {
+  if (isNamespaceReference(node)) {
+    names.add(ts.isPropertyAccessExpression(node) ? node.name.text : node.right.text);
+    return;
+  }
+  if (ts.isIdentifier(node)) {
+    const parent = node.parent;
+    const isPropertyName =
+      (ts.isPropertyAccessExpression(parent) && parent.name === node) ||
+      (ts.isQualifiedName(parent) && parent.right === node) ||
+      ((ts.isPropertyAssignment(parent) || ts.isPropertySignature(parent)) && parent.name === node);
+    if (!isPropertyName) {
+      names.add(node.text);
+    }
+  }
+  ts.forEachChild(node, (childNode) => collectReferencedNames(childNode, names));
+}
+
+/**
+ * Replace the references to the declarations of `namespace schema` with the imported declarations,
+ * e.g. `schema.PartialUser` becomes `PartialUser`
+ */
+function removeNamespaceReferences(statement: ts.Statement): ts.Statement {
+  const result = ts.transform(statement, [
+    (context) => (rootNode) => {
+      const visitor = (node: ts.Node): ts.Node => {
+        if (isNamespaceReference(node)) {
+          return ts.factory.createIdentifier(ts.isPropertyAccessExpression(node) ? node.name.text : node.right.text);
+        }
+        return ts.visitEachChild(node, visitor, context);
+      };
+      return ts.visitNode(rootNode, visitor) as ts.Statement;
+    },
+  ]);
+  const [transformedStatement] = result.transformed;
+  result.dispose();
+  return transformedStatement ?? statement;
+}
+
+/**
+ * Keep the imported names which are referenced by a module, or drop the import
+ */
+function filterImport(
+  importDeclaration: ts.ImportDeclaration,
+  referencedNames: Set<string>,
+): ts.ImportDeclaration | undefined {
+  const importClause = importDeclaration.importClause;
+  if (!importClause) {
+    return undefined;
+  }
+  const name = importClause.name && referencedNames.has(importClause.name.text) ? importClause.name : undefined;
+  let namedBindings = importClause.namedBindings;
+  if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+    namedBindings = referencedNames.has(namedBindings.name.text) ? namedBindings : undefined;
+  } else if (namedBindings) {
+    const elements = namedBindings.elements.filter((element) => referencedNames.has(element.name.text));
+    namedBindings = elements.length > 0 ? ts.factory.updateNamedImports(namedBindings, elements) : undefined;
+  }
+  if (!name && !namedBindings) {
+    return undefined;
+  }
+  return ts.factory.updateImportDeclaration(
+    importDeclaration,
+    importDeclaration.modifiers,
+    ts.factory.updateImportClause(importClause, importClause.isTypeOnly, name, namedBindings),
+    importDeclaration.moduleSpecifier,
+    importDeclaration.attributes,
+  );
+}
+
+/**
+ * Whether a statement declares values, which cannot be referenced before their declaration in an ES module
+ */
+function isValueStatement(statement: ts.Statement): boolean {
+  return (
+    ts.isVariableStatement(statement) ||
+    ts.isEnumDeclaration(statement) ||
+    ts.isFunctionDeclaration(statement) ||
+    ts.isClassDeclaration(statement)
+  );
+}
+
+/**
+ * Sort the top-level declarations of the validator code after the values they reference,
+ * as the schemas declared at the top level of an ES module cannot be referenced before their declaration.
+ * The types stay before the value declared after them, and the order is kept otherwise.
+ * @param code - The validator code, without `namespace schema`.
+ * @returns The sorted code.
+ */
+export function sortDeclarations(code: string): string {
+  const sourceFile = ts.createSourceFile("validators.ts", code, ts.ScriptTarget.Latest, true);
+
+  // Group the types with the next value declaration
+  const importDeclarations: ts.Statement[] = [];
+  const units: { statements: ts.Statement[]; referencedNames: Set<string> }[] = [];
+  const declaringUnits = new Map<string, number>();
+  let statements: ts.Statement[] = [];
+  for (const statement of sourceFile.statements) {
+    if (ts.isImportDeclaration(statement)) {
+      importDeclarations.push(statement);
+      continue;
+    }
+    statements.push(statement);
+    if (isValueStatement(statement)) {
+      const referencedNames = new Set<string>();
+      collectReferencedNames(statement, referencedNames);
+      for (const name of getDeclaredNames(statement)) {
+        declaringUnits.set(name, units.length);
+      }
+      units.push({ statements, referencedNames });
+      statements = [];
+    }
+  }
+
+  // Visit the declarations of the referenced values first
+  const sortedUnits: number[] = [];
+  const visitedUnits = new Set<number>();
+  const visit = (index: number) => {
+    if (visitedUnits.has(index)) {
+      return;
+    }
+    visitedUnits.add(index);
+    for (const name of units[index]!.referencedNames) {
+      const declaringUnit = declaringUnits.get(name);
+      if (declaringUnit !== undefined) {
+        visit(declaringUnit);
+      }
+    }
+    sortedUnits.push(index);
+  };
+  units.forEach((_unit, index) => visit(index));
+
+  return [
+    ...importDeclarations,
+    ...sortedUnits.flatMap((index) => units[index]!.statements),
+    ...statements,
+  ]
+    .map((statement) => statement.getFullText(sourceFile))
+    .join("");
+}
+
+/**
+ * Split the validator code into one module per entity and a barrel module re-exporting them.
+ * The declarations of each entity (e.g. `User`, `PartialUser` and `CreateUser`) are moved to the module of the entity,
+ * the other declarations (e.g. the enums) to their own module, and the modules import the declarations they reference.
+ * @param code - The validator code, with the declarations in `namespace schema` for TypeBox.
+ * @param entityTypeNames - The entity of each generated type by type name.
+ * @returns The code of the modules by file name, e.g. `User.ts` and `index.ts`.
+ */
+export function splitValidatorCode(code: string, entityTypeNames: Map<string, string>): Map<string, string> {
+  const sourceFile = ts.createSourceFile("validators.ts", code, ts.ScriptTarget.Latest, true);
+
+  // Collect the imports and the declarations, including those of `namespace schema`
+  const importDeclarations: ts.ImportDeclaration[] = [];
+  const statements: ts.Statement[] = [];
+  for (const statement of sourceFile.statements) {
+    if (ts.isImportDeclaration(statement)) {
+      importDeclarations.push(statement);
+    } else if (ts.isModuleDeclaration(statement) && statement.body && ts.isModuleBlock(statement.body)) {
+      statements.push(...statement.body.statements);
+    } else {
+      statements.push(statement);
+    }
+  }
+
+  // Group the declarations by module, after the entity owning them or their own name
+  const modules = new Map<string, ts.Statement[]>();
+  const declaringModules = new Map<string, string>();
+  let moduleName: string | undefined;
+  for (const statement of statements) {
+    const [declaredName] = getDeclaredNames(statement);
+    if (declaredName !== undefined) {
+      const typeName = declaredName.startsWith(namespacePrefix)
+        ? declaredName.slice(namespacePrefix.length)
+        : declaredName;
+      moduleName = entityTypeNames.get(typeName) ?? typeName;
+    }
+    // the statements without declarations stay with the previous declaration
+    moduleName ??= "schema";
+    for (const name of getDeclaredNames(statement)) {
+      declaringModules.set(name, moduleName);
+    }
+    modules.set(moduleName, [...(modules.get(moduleName) ?? []), statement]);
+  }
+
+  const printer = ts.createPrinter();
+  const print = (node: ts.Node) => printer.printNode(ts.EmitHint.Unspecified, node, sourceFile);
+
+  const moduleFiles = new Map<string, string>();
+  for (const [name, moduleStatements] of modules) {
+    const referencedNames = new Set<string>();
+    for (const statement of moduleStatements) {
+      collectReferencedNames(statement, referencedNames);
+    }
+
+    // Import the declarations of the other modules
+    const moduleImports = new Map<string, string[]>();
+    for (const referencedName of [...referencedNames].sort()) {
+      const declaringModule = declaringModules.get(referencedName);
+      if (declaringModule !== undefined && declaringModule !== name) {
+        moduleImports.set(declaringModule, [...(moduleImports.get(declaringModule) ?? []), referencedName]);
+      }
+    }
+
+    const imports = [
+      ...importDeclarations.flatMap((importDeclaration) => {
+        const filteredImport = filterImport(importDeclaration, referencedNames);
+        return filteredImport ? [print(filteredImport)] : [];
+      }),
+      ...[...moduleImports].map(
+        ([declaringModule, importedNames]) => `import { ${importedNames.join(", ")} } from "./${declaringModule}.js";`,
+      ),
+    ];
+    const body = moduleStatements.map((statement) => print(removeNamespaceReferences(statement)));
+    moduleFiles.set(`${name}.ts`, `${imports.join("\n")}\n\n${body.join("\n")}\n`);
+  }
+
+  // Re-export the modules from the barrel
+  const barrel = [...modules.keys()].map((name) => `export * from "./${name}.js";`).join("\n");
+  moduleFiles.set(barrelFileName, `${barrel}\n`);
+
+  return moduleFiles;
+}
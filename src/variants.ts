@@ -0,0 +1,212 @@
+import * as ts from "typescript";
+import { findDecorator, getPropertyOption } from "./decorators.js";
+import { hasPropertyTypeMarker } from "./wrappers.js";
+
+/**
+ * The DTO variants which can be generated for each entity
+ * - `create`: the input of a create operation, e.g. `CreateUser`
+ * - `update`: the input of an update operation, e.g. `UpdateUser`
+ * - `response`: the serialized entity, e.g. `UserResponse`
+ */
+export const entityVariants = ["create", "update", "response"] as const;
+
+export type EntityVariant = (typeof entityVariants)[number];
+
+/**
+ * A property signature of an entity type, with the property declaration it was created from
+ */
+export interface EntityProperty {
+  /** The property declaration, which is undefined for the generated discriminator properties */
+  declaration?: ts.PropertyDeclaration;
+  signature: ts.PropertySignature;
+}
+
+/**
+ * Get the name of the type of a variant of an entity
+ */
+export function getVariantTypeName(variant: EntityVariant, entityName: string): string {
+  switch (variant) {
+    case "create":
+      return `Create${entityName}`;
+    case "update":
+      return `Update${entityName}`;
+    case "response":
+      return `${entityName}Response`;
+  }
+}
+
+function isTrueOption(member: ts.PropertyDeclaration, name: string): boolean {
+  return getPropertyOption(member, name)?.kind === ts.SyntaxKind.TrueKeyword;
+}
+
+function isFalseOption(member: ts.PropertyDeclaration, name: string): boolean {
+  return getPropertyOption(member, name)?.kind === ts.SyntaxKind.FalseKeyword;
+}
+
+/**
+ * Whether the property matches a pattern like `User.password`, or `*.password` for the properties of all entities
+ */
+export function matchesPropertyPattern(patterns: string[], entityName: string, propertyName: string): boolean {
+  return patterns.some((pattern) => pattern === `${entityName}.${propertyName}` || pattern === `*.${propertyName}`);
+}
+
+/**
+ * Whether the property is computed rather than stored, with `persist: false` or `@Formula()`
+ */
+function isComputedProperty(declaration: ts.PropertyDeclaration): boolean {
+  return isFalseOption(declaration, "persist") || findDecorator(declaration, "Formula") !== undefined;
+}
+
+/**
+ * Whether the property might be missing from loaded entities, which is the case of computed properties
+ * and of `lazy: true` properties which are only loaded when populated
+ */
+export function isOptionalEntityProperty(declaration: ts.PropertyDeclaration): boolean {
+  return isComputedProperty(declaration) || isTrueOption(declaration, "lazy");
+}
+
+/**
+ * Whether the primary key is generated by the database, which is the case of numeric primary keys
+ * unless declared with `autoincrement: false`, and of primary keys declared with `autoincrement: true`
+ */
+function isAutoincrementPrimaryKey(property: EntityProperty, primaryKeyFieldNames: string[]): boolean {
+  const { declaration, signature } = property;
+  if (
+    !declaration ||
+    primaryKeyFieldNames.length !== 1 ||
+    !ts.isIdentifier(signature.name) ||
+    signature.name.text !== primaryKeyFieldNames[0] ||
+    !findDecorator(declaration, "PrimaryKey")
+  ) {
+    return false;
+  }
+  return (
+    isTrueOption(declaration, "autoincrement") ||
+    (signature.type?.kind === ts.SyntaxKind.NumberKeyword && !isFalseOption(declaration, "autoincrement"))
+  );
+}
+
+/**
+ * Whether the value of the property is set by the database or by Mikro-ORM when the entity is created
+ */
+function hasCreateDefault(declaration: ts.PropertyDeclaration): boolean {
+  return (
+    getPropertyOption(declaration, "default") !== undefined ||
+    getPropertyOption(declaration, "defaultRaw") !== undefined ||
+    getPropertyOption(declaration, "onCreate") !== undefined
+  );
+}
+
+function createOptionalSignature(signature: ts.PropertySignature): ts.PropertySignature {
+  return ts.setSyntheticLeadingComments(
+    ts.factory.createPropertySignature(
+      signature.modifiers,
+      signature.name,
+      ts.factory.createToken(ts.SyntaxKind.QuestionToken),
+      signature.type,
+    ),
+    ts.getSyntheticLeadingComments(signature),
+  );
+}
+
+/**
+ * Whether the property is declared with `hidden: true` or typed as `Hidden<T>`
+ */
+function isHiddenProperty(declaration: ts.PropertyDeclaration): boolean {
+  return isTrueOption(declaration, "hidden") || hasPropertyTypeMarker(declaration.type, "Hidden");
+}
+
+/**
+ * Whether the property is typed as `Opt<T>`, which is optional on create
+ */
+function isOptProperty(declaration: ts.PropertyDeclaration | undefined): boolean {
+  return declaration !== undefined && hasPropertyTypeMarker(declaration.type, "Opt");
+}
+
+/**
+ * Whether the property is initialized by the entity, e.g. `posts = new Collection<Post>(this)`
+ * or `createdAt: Date = new Date()`, which is optional on create
+ */
+function isInitializedProperty(declaration: ts.PropertyDeclaration | undefined): boolean {
+  return declaration?.initializer !== undefined;
+}
+
+/**
+ * Whether a variant drops a property
+ * - `create` drops the autoincrement primary key, the properties with defaults or `onCreate` (unless typed as `Opt<T>`),
+ *   and the computed properties
+ * - `update` drops the computed properties
+ * - `response` drops the `hidden: true` and `Hidden<T>` properties
+ */
+function isDroppedProperty(
+  variant: EntityVariant,
+  property: EntityProperty,
+  primaryKeyFieldNames: string[],
+): boolean {
+  const { declaration } = property;
+  if (!declaration) {
+    return false;
+  }
+  switch (variant) {
+    case "create":
+      return (
+        isAutoincrementPrimaryKey(property, primaryKeyFieldNames) ||
+        (hasCreateDefault(declaration) && !isOptProperty(declaration)) ||
+        isComputedProperty(declaration)
+      );
+    case "update":
+      return isComputedProperty(declaration);
+    case "response":
+      return isHiddenProperty(declaration);
+  }
+}
+
+/**
+ * Create the property signatures of a variant of an entity.
+ * The properties matching the `include` patterns are kept even when the variant drops them.
+ * The `update` variant makes all the properties optional except the primary key fields,
+ * and the `create` variant makes the `Opt<T>` and the initialized properties optional.
+ */
+function createVariantSignatures(
+  variant: EntityVariant,
+  entityName: string,
+  properties: EntityProperty[],
+  primaryKeyFieldNames: string[],
+  include: string[],
+): ts.PropertySignature[] {
+  return properties
+    .filter(
+      (property) =>
+        !isDroppedProperty(variant, property, primaryKeyFieldNames) ||
+        (ts.isIdentifier(property.signature.name) &&
+          matchesPropertyPattern(include, entityName, property.signature.name.text)),
+    )
+    .map(({ declaration, signature }) =>
+      (variant === "update" && !(ts.isIdentifier(signature.name) && primaryKeyFieldNames.includes(signature.name.text))) ||
+        (variant === "create" && (isOptProperty(declaration) || isInitializedProperty(declaration)))
+        ? createOptionalSignature(signature)
+        : signature,
+    );
+}
+
+/**
+ * Create the variant types of an entity
+ */
+export function createEntityVariantTypes(
+  entityName: string,
+  properties: EntityProperty[],
+  primaryKeyFieldNames: string[],
+  variants: EntityVariant[],
+  include: string[] = [],
+): ts.TypeAliasDeclaration[] {
+  return variants.map((variant) =>
+    ts.factory.createTypeAliasDeclaration(
+      [ts.factory.createModifier(ts.SyntaxKind.ExportKeyword)],
+      getVariantTypeName(variant, entityName),
+      undefined,
+      ts.factory.createTypeLiteralNode(
+        createVariantSignatures(variant, entityName, properties, primaryKeyFieldNames, include),
+      ),
+    ),
+  );
+}
@@ -0,0 +1,144 @@
+import { existsSync, statSync, watch } from "fs";
+import { readFile } from "fs/promises";
+import path from "path";
+import * as ts from "typescript";
+import {
+  createEntityFileMatcher,
+  findStaleOutputFiles,
+  generateEntityValidatorFiles,
+  resolveOrmConfigEntities,
+  readEntities,
+  removeOutputFiles,
+  writeOutputFiles,
+  type GenerateEntityValidatorOptions,
+} from "./generate.js";
+
+export type WatchEntityValidatorOptions = GenerateEntityValidatorOptions & {
+  /**
+   * The delay in milliseconds to wait for more changes before regenerating the validator.
+   * @default 100
+   */
+  debounce?: number | undefined;
+  /**
+   * Called after each generation, with the output file (or directory) and whether it was written,
+   * or a module of a deleted entity was removed from the output directory
+   * (false when the code of all its files did not change).
+   */
+  onGenerate?: ((result: { outputFile: string; written: boolean }) => void) | undefined;
+  /**
+   * Called when the entity files cannot be parsed or the validator cannot be generated.
+   * The watcher keeps running and the output file is left unchanged.
+   */
+  onError?: ((error: Error) => void) | undefined;
+};
+
+export interface EntityValidatorWatcher {
+  /** Stop watching the entities directory */
+  close(): void;
+}
+
+/**
+ * Get the syntax errors of the entity files, formatted with their file names and positions
+ */
+function getSyntaxErrors(filesMap: Map<string, string>): string[] {
+  const errors: string[] = [];
+  for (const [filePath, content] of filesMap) {
+    const { diagnostics = [] } = ts.transpileModule(content, {
+      fileName: filePath,
+      reportDiagnostics: true,
+      compilerOptions: { experimentalDecorators: true },
+    });
+    for (const diagnostic of diagnostics) {
+      const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n");
+      if (diagnostic.file && diagnostic.start !== undefined) {
+        const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+        errors.push(`${filePath}:${line + 1}:${character + 1}: ${message}`);
+      } else {
+        errors.push(`${filePath}: ${message}`);
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Generate the validator, then regenerate it whenever the entity files change.
+ * Bursts of changes are debounced, only the changed files are read again,
+ * and the output files are only written when their generated code changes.
+ * @param opts - The options for the validator and the watcher.
+ * @returns The watcher, which keeps running until it is closed.
+ */
+export async function watchEntityValidator(
+  opts: WatchEntityValidatorOptions,
+): Promise<EntityValidatorWatcher> {
+  const entitiesOpts = await resolveOrmConfigEntities(opts);
+  const { roots, matches } = createEntityFileMatcher(entitiesOpts);
+  const outputFile = opts.outputDir ?? opts.outputFile ?? "./src/entity-validators.ts";
+  const onError = opts.onError ?? ((error: Error) => console.error("Error:", error.message));
+
+  // the contents of the entity files, updated with the changed files
+  const filesMap = await readEntities(entitiesOpts);
+  const changedFiles = new Set<string>();
+
+  const generate = async () => {
+    const syntaxErrors = getSyntaxErrors(filesMap);
+    if (syntaxErrors.length > 0) {
+      throw new Error(`Failed to parse the entity files:\n${syntaxErrors.join("\n")}`);
+    }
+    const outputFiles = await generateEntityValidatorFiles(filesMap, { ...entitiesOpts, write: false });
+    const staleFiles = await findStaleOutputFiles(entitiesOpts.outputDir, outputFiles);
+    const written = (await writeOutputFiles(outputFiles)).length > 0;
+    const removed = await removeOutputFiles(staleFiles);
+    opts.onGenerate?.({ outputFile, written: written || removed });
+  };
+
+  const regenerate = async () => {
+    let changed = false;
+    for (const filePath of changedFiles) {
+      changedFiles.delete(filePath);
+      const content = existsSync(filePath) ? await readFile(filePath, "utf-8") : undefined;
+      if (content === filesMap.get(filePath)) {
+        continue;
+      }
+      if (content === undefined) {
+        filesMap.delete(filePath);
+      } else {
+        filesMap.set(filePath, content);
+      }
+      changed = true;
+    }
+    if (changed) {
+      await generate();
+    }
+  };
+
+  // run the generations one after another
+  let queue = generate().catch(onError);
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+
+  // watch the entity directories recursively, and the directories of the entity files
+  const watchers = roots.map((root) => {
+    const dir = statSync(root).isDirectory() ? root : path.dirname(root);
+    return watch(dir, { recursive: true }, (_event, fileName) => {
+      if (!fileName || !matches(path.join(dir, fileName))) {
+        return;
+      }
+      changedFiles.add(path.join(dir, fileName));
+      clearTimeout(timeout);
+      timeout = setTimeout(() => {
+        queue = queue.then(regenerate).catch(onError);
+      }, opts.debounce ?? 100);
+    });
+  });
+
+  await queue;
+
+  return {
+    close() {
+      clearTimeout(timeout);
+      for (const watcher of watchers) {
+        watcher.close();
+      }
+    },
+  };
+}
@@ -0,0 +1,113 @@
+import * as ts from "typescript";
+
+/**
+ * The Mikro-ORM reference wrappers, e.g. `Ref<User>` for `@ManyToOne(() => User, { ref: true })`,
+ * which are unwrapped to the referenced entity (or scalar for `ScalarRef<string>`)
+ */
+const referenceWrapperNames = new Set([
+  "Ref",
+  "Reference",
+  "IdentifiedReference",
+  "LoadedReference",
+  "ScalarRef",
+  "ScalarReference",
+]);
+
+/**
+ * The Mikro-ORM property type markers, as `Opt<Date>` or `Date & Opt`:
+ * - `Opt` marks the properties with a default value, which are optional on create
+ * - `Hidden` marks the properties which are not serialized
+ */
+export type PropertyTypeMarker = "Opt" | "Hidden";
+
+const propertyTypeMarkers = new Set<string>(["Opt", "Hidden"]);
+
+/**
+ * Get the type wrapped in a reference like `Ref<User>` or `IdentifiedReference<User, "id">`
+ */
+export function unwrapReferenceType(
+  type: ts.TypeNode,
+): ts.TypeNode | undefined {
+  if (
+    ts.isTypeReferenceNode(type) &&
+    ts.isIdentifier(type.typeName) &&
+    referenceWrapperNames.has(type.typeName.text)
+  ) {
+    return type.typeArguments?.[0];
+  }
+  return undefined;
+}
+
+/**
+ * Whether a property type is marked with `Opt` or `Hidden`, e.g. `Opt<Date>`, `Date & Opt` or `Ref<User> & Hidden`
+ */
+export function hasPropertyTypeMarker(
+  type: ts.TypeNode | undefined,
+  marker: PropertyTypeMarker,
+): boolean {
+  if (!type) {
+    return false;
+  }
+  if (ts.isParenthesizedTypeNode(type)) {
+    return hasPropertyTypeMarker(type.type, marker);
+  }
+  if (ts.isUnionTypeNode(type) || ts.isIntersectionTypeNode(type)) {
+    return type.types.some((member) => hasPropertyTypeMarker(member, marker));
+  }
+  if (ts.isTypeReferenceNode(type) && ts.isIdentifier(type.typeName)) {
+    if (type.typeName.text === marker) {
+      return true;
+    }
+    // the markers wrap each other, e.g. `Opt<Hidden<string>>`
+    const [wrappedType] = type.typeArguments ?? [];
+    return (
+      propertyTypeMarkers.has(type.typeName.text) &&
+      hasPropertyTypeMarker(wrappedType, marker)
+    );
+  }
+  return false;
+}
+
+/**
+ * Remove the `Opt` and `Hidden` markers from a property type, e.g. `Opt<Date>` and `Date & Opt` become `Date`
+ */
+export function removePropertyTypeMarkers(type: ts.TypeNode): ts.TypeNode {
+  if (
+    ts.isTypeReferenceNode(type) &&
+    ts.isIdentifier(type.typeName) &&
+    propertyTypeMarkers.has(type.typeName.text)
+  ) {
+    const [wrappedType] = type.typeArguments ?? [];
+    return wrappedType ? removePropertyTypeMarkers(wrappedType) : type;
+  }
+  if (ts.isIntersectionTypeNode(type)) {
+    const members = type.types.filter(
+      (member) =>
+        !(
+          ts.isTypeReferenceNode(member) &&
+          ts.isIdentifier(member.typeName) &&
+          propertyTypeMarkers.has(member.typeName.text) &&
+          !member.typeArguments
+        ),
+    );
+    if (members.length === type.types.length) {
+      return type;
+    }
+    return members.length === 1
+      ? removePropertyTypeMarkers(members[0]!)
+      : ts.factory.createIntersectionTypeNode(
+          members.map(removePropertyTypeMarkers),
+        );
+  }
+  if (ts.isUnionTypeNode(type)) {
+    const members = type.types.map(removePropertyTypeMarkers);
+    return members.every((member, index) => member === type.types[index])
+      ? type
+      : ts.factory.createUnionTypeNode(members);
+  }
+  if (ts.isParenthesizedTypeNode(type)) {
+    const wrappedType = removePropertyTypeMarkers(type.type);
+    return wrappedType === type.type ? type : wrappedType;
+  }
+  return type;
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, writeFile, rm } from "fs/promises";
+import { existsSync } from "fs";
+import { checkEntityValidator } from "../src/check.js";
+import { createUnifiedDiff } from "../src/diff.js";
+import { generateEntityValidator } from "../src/generate.js";
+
+describe("createUnifiedDiff", () => {
+  it("should return an empty diff for equal texts", () => {
+    expect(createUnifiedDiff("a\nb\n", "a\nb\n", "a/file", "b/file")).toBe("");
+  });
+
+  it("should create hunks with context lines", () => {
+    const oldText = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "10", "11", "12", ""].join("\n");
+    const newText = ["1", "2", "three", "4", "5", "6", "7", "8", "9", "10", "11", "12", "13", ""].join("\n");
+
+    expect(createUnifiedDiff(oldText, newText, "a/file", "b/file")).toBe(
+      [
+        "--- a/file",
+        "+++ b/file",
+        "@@ -1,6 +1,6 @@",
+        " 1",
+        " 2",
+        "-3",
+        "+three",
+        " 4",
+        " 5",
+        " 6",
+        "@@ -10,3 +10,4 @@",
+        " 10",
+        " 11",
+        " 12",
+        "+13",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should diff against an empty text", () => {
+    expect(createUnifiedDiff("", "a\nb\n", "a/file", "b/file")).toBe(
+      ["--- a/file", "+++ b/file", "@@ -0,0 +1,2 @@", "+a", "+b", ""].join("\n"),
+    );
+  });
+
+  it("should mark the lines without a final newline", () => {
+    expect(createUnifiedDiff("a\nb", "a\nb\n", "a/file", "b/file")).toBe(
+      ["--- a/file", "+++ b/file", "@@ -1,2 +1,2 @@", " a", "-b", "\\ No newline at end of file", "+b", ""].join("\n"),
+    );
+    expect(createUnifiedDiff("a\n", "a\nb", "a/file", "b/file")).toBe(
+      ["--- a/file", "+++ b/file", "@@ -1,1 +1,2 @@", " a", "+b", "\\ No newline at end of file", ""].join("\n"),
+    );
+  });
+});
+
+describe("checkEntityValidator", () => {
+  const testEntitiesDir = "./test-check-entities";
+  const testOutputFile = "./test-check-output.ts";
+
+  const userCode = (property: string) => `
+    import { Entity, PrimaryKey, Property } from "@mikro-orm/core";
+
+    @Entity()
+    export class User {
+      @PrimaryKey()
+      id!: number;
+
+      @Property()
+      ${property}!: string;
+    }
+  `;
+
+  beforeEach(async () => {
+    await mkdir(testEntitiesDir, { recursive: true });
+    await writeFile(`${testEntitiesDir}/User.ts`, userCode("name"));
+  });
+
+  afterEach(async () => {
+    if (existsSync(testEntitiesDir)) {
+      await rm(testEntitiesDir, { recursive: true, force: true });
+    }
+    if (existsSync(testOutputFile)) {
+      await rm(testOutputFile, { force: true });
+    }
+  });
+
+  it("should report an up to date output file", async () => {
+    await generateEntityValidator({ entitiesDir: testEntitiesDir, outputFile: testOutputFile, write: true });
+
+    const result = await checkEntityValidator({ entitiesDir: testEntitiesDir, outputFile: testOutputFile });
+
+    expect(result.upToDate).toBe(true);
+    expect(result.diff).toBe("");
+  });
+
+  it("should report the diff of an outdated output file without writing it", async () => {
+    await generateEntityValidator({ entitiesDir: testEntitiesDir, outputFile: testOutputFile, write: true });
+    const output = await Bun.file(testOutputFile).text();
+    await writeFile(`${testEntitiesDir}/User.ts`, userCode("email"));
+
+    const result = await checkEntityValidator({ entitiesDir: testEntitiesDir, outputFile: testOutputFile });
+
+    expect(result.upToDate).toBe(false);
+    expect(result.diff).toContain("--- a/test-check-output.ts\n+++ b/test-check-output.ts\n@@ ");
+    expect(result.diff).toContain("\n-    name: Type.String(),\n+    email: Type.String(),\n");
+    expect(await Bun.file(testOutputFile).text()).toBe(output);
+  });
+
+  it("should report a missing output file", async () => {
+    const result = await checkEntityValidator({ entitiesDir: testEntitiesDir, outputFile: testOutputFile });
+
+    expect(result.upToDate).toBe(false);
+    expect(result.diff).toContain("@@ -0,0 +1,");
+    expect(existsSync(testOutputFile)).toBe(false);
+  });
+});
@@ -61,7 +61,7 @@ describe("CLI", () => {
 
       const content = await Bun.file(testOutputFile).text();
       expect(content).toContain(
-        'import { Type, Static, TSchema } from "@sinclair/typebox"',
+        'import { Type, Static } from "@sinclair/typebox"',
       );
       expect(content).toContain("export namespace schema {");
       expect(content).toContain("export const User = Type.Object(");
@@ -159,7 +159,7 @@ describe("CLI", () => {
       expect(stdout).toContain(
         "Generate validation schemas from Mikro-ORM entities",
       );
-      expect(stdout).toContain("--entities <path>");
+      expect(stdout).toContain("--entities <paths...>");
       expect(stdout).toContain("--output <file>");
       expect(stdout).toContain("--target <library>");
     });
@@ -206,6 +206,216 @@ describe("CLI", () => {
       expect(content).toContain('import * as v from "valibot"');
       expect(content).toContain("export const schema_User = v.object({");
     });
+
+    it("should generate the variants given with --variants", async () => {
+      const proc = spawn([
+        "bun",
+        "run",
+        "src/cli.ts",
+        "generate",
+        "--entities",
+        testEntitiesDir,
+        "--output",
+        testOutputFile,
+        "--variants",
+        "create",
+        "update",
+      ]);
+
+      const exitCode = await proc.exited;
+      expect(exitCode).toBe(0);
+
+      const content = await Bun.file(testOutputFile).text();
+      expect(content).toContain("export const CreateUser = Type.Object(");
+      expect(content).toContain("export const UpdateUser = Type.Object(");
+      expect(content).not.toContain("UserResponse");
+    });
+    it("should generate flat schemas named with --schema-name", async () => {
+      const proc = spawn([
+        "bun",
+        "run",
+        "src/cli.ts",
+        "generate",
+        "--entities",
+        testEntitiesDir,
+        "--output",
+        testOutputFile,
+        "--flat",
+        "--schema-name",
+        "{name}Schema",
+      ]);
+
+      const exitCode = await proc.exited;
+      expect(exitCode).toBe(0);
+
+      const content = await Bun.file(testOutputFile).text();
+      expect(content).not.toContain("namespace schema");
+      expect(content).toContain("export type User = Static<typeof UserSchema>;");
+      expect(content).toContain("export const UserSchema = Type.Object(");
+    });
+
+    it("should read the entities of repeated --entities options recursively", async () => {
+      await mkdir(`${testEntitiesDir}/posts/entities`, { recursive: true });
+      await writeFile(
+        `${testEntitiesDir}/posts/entities/post.entity.ts`,
+        `
+        import { Entity, PrimaryKey } from "@mikro-orm/core";
+
+        @Entity()
+        export class Post {
+          @PrimaryKey()
+          id!: number;
+        }
+      `,
+      );
+      await writeFile(`${testEntitiesDir}/posts/entities/post.entity.spec.ts`, "syntax error (");
+
+      const proc = spawn([
+        "bun",
+        "run",
+        "src/cli.ts",
+        "generate",
+        "-e",
+        `${testEntitiesDir}/User.ts`,
+        "-e",
+        `${testEntitiesDir}/posts`,
+        "--exclude-files",
+        "*.spec.ts",
+        "--output",
+        testOutputFile,
+      ]);
+
+      expect(await proc.exited).toBe(0);
+      const content = await Bun.file(testOutputFile).text();
+      expect(content).toContain("export const User = Type.Object(");
+      expect(content).toContain("export const Post = Type.Object(");
+    });
+    it("should read the entities of the Mikro-ORM config given with --orm-config", async () => {
+      await writeFile(
+        `${testEntitiesDir}/mikro-orm.config.ts`,
+        `
+        import { User } from "./User";
+
+        export default { entities: [User] };
+      `,
+      );
+
+      const proc = spawn([
+        "bun",
+        "run",
+        "src/cli.ts",
+        "generate",
+        "--orm-config",
+        `${testEntitiesDir}/mikro-orm.config.ts`,
+        "--output",
+        testOutputFile,
+      ]);
+
+      expect(await proc.exited).toBe(0);
+      expect(await Bun.file(testOutputFile).text()).toContain("export const User = Type.Object(");
+    });
+  });
+
+  describe("check command", () => {
+    it("should exit with zero when the output file is up to date", async () => {
+      const generateProc = spawn([
+        "bun",
+        "run",
+        "src/cli.ts",
+        "generate",
+        "--entities",
+        testEntitiesDir,
+        "--output",
+        testOutputFile,
+      ]);
+      expect(await generateProc.exited).toBe(0);
+
+      const proc = spawn(
+        ["bun", "run", "src/cli.ts", "check", "--entities", testEntitiesDir, "--output", testOutputFile],
+        { stdout: "pipe" },
+      );
+
+      expect(await proc.exited).toBe(0);
+      expect(await new Response(proc.stdout).text()).toContain("is up to date");
+    });
+
+    it("should print the diff and exit with non-zero when the output file is out of date", async () => {
+      await writeFile(testOutputFile, "// outdated\n");
+
+      const proc = spawn(
+        ["bun", "run", "src/cli.ts", "check", "--entities", testEntitiesDir, "--output", testOutputFile],
+        { stdout: "pipe" },
+      );
+
+      expect(await proc.exited).toBe(1);
+      const output = await new Response(proc.stdout).text();
+      expect(output).toContain("--- a/test-cli-output.ts");
+      expect(output).toContain("-// outdated");
+      expect(await Bun.file(testOutputFile).text()).toBe("// outdated\n");
+    });
+  });
+
+  describe("configuration file", () => {
+    const testConfigFile = "./test-cli-config.json";
+    const jobOutputFiles = ["./test-cli-output-typebox.ts", "./test-cli-output-zod.ts"];
+
+    beforeEach(async () => {
+      await writeFile(
+        testConfigFile,
+        JSON.stringify({
+          entitiesDir: testEntitiesDir,
+          jobs: {
+            typebox: { outputFile: jobOutputFiles[0] },
+            zod: { outputFile: jobOutputFiles[1], targetValidationLibrary: "zod" },
+          },
+        }),
+      );
+    });
+
+    afterEach(async () => {
+      for (const file of [testConfigFile, ...jobOutputFiles]) {
+        if (existsSync(file)) {
+          await rm(file, { force: true });
+        }
+      }
+    });
+
+    it("should run all the jobs of the configuration file", async () => {
+      const proc = spawn(["bun", "run", "src/cli.ts", "generate", "--config", testConfigFile]);
+
+      expect(await proc.exited).toBe(0);
+      expect(await Bun.file(jobOutputFiles[0]!).text()).toContain("export const User = Type.Object(");
+      expect(await Bun.file(jobOutputFiles[1]!).text()).toContain("export const schema_User = z.object(");
+    });
+
+    it("should run the jobs given with --job, with the command line options overriding the configuration", async () => {
+      const proc = spawn([
+        "bun",
+        "run",
+        "src/cli.ts",
+        "generate",
+        "--config",
+        testConfigFile,
+        "--job",
+        "typebox",
+        "--target",
+        "valibot",
+      ]);
+
+      expect(await proc.exited).toBe(0);
+      expect(await Bun.file(jobOutputFiles[0]!).text()).toContain("v.object(");
+      expect(existsSync(jobOutputFiles[1]!)).toBe(false);
+    });
+
+    it("should exit with non-zero for an unknown job", async () => {
+      const proc = spawn(
+        ["bun", "run", "src/cli.ts", "generate", "--config", testConfigFile, "--job", "admin"],
+        { stderr: "pipe" },
+      );
+
+      expect(await proc.exited).toBe(1);
+      expect(await new Response(proc.stderr).text()).toContain("Unknown jobs: admin.");
+    });
   });
 
   describe("CLI argument parsing", () => {
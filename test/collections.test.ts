@@ -0,0 +1,187 @@
+import { describe, it, expect } from "bun:test";
+import { generateEntityValidatorFromFiles } from "../src/generate.js";
+import { generateEntityFileTypes } from "../src/prepare.js";
+
+describe("Collection relations", () => {
+  const files = new Map([
+    [
+      "./src/entities/Tag.ts",
+      `
+      import { Entity, PrimaryKey, Property } from "@mikro-orm/core";
+
+      @Entity()
+      export class Tag {
+        @PrimaryKey()
+        id!: string;
+
+        @Property()
+        label!: string;
+      }
+    `,
+    ],
+    [
+      "./src/entities/Post.ts",
+      `
+      import { Collection, Entity, ManyToMany, PrimaryKey, Property } from "@mikro-orm/core";
+      import { Tag } from "./Tag";
+
+      @Entity()
+      export class Post {
+        @PrimaryKey()
+        id!: number;
+
+        @Property()
+        title!: string;
+
+        @ManyToMany(() => Tag)
+        tags = new Collection<Tag>(this);
+      }
+    `,
+    ],
+  ]);
+
+  it("should accept the IDs or the partial entities with the input semantics by default", async () => {
+    const { typesCode } = generateEntityFileTypes(files, { usePartialTypes: true });
+
+    expect(typesCode).toContain("tags: Array<string | schema.PartialTag>;");
+    expect(typesCode).not.toContain("Collection");
+
+    const code = await generateEntityValidatorFromFiles(files, { write: false });
+
+    expect(code).toContain("tags: Type.Array(Type.Union([Type.String(), schema.PartialTag])),");
+    expect(code).not.toContain("additionalProperties");
+  });
+
+  it("should accept the primary key objects of the entities with composite primary keys", () => {
+    const compositeFiles = new Map([
+      ...files,
+      [
+        "./src/entities/Tag.ts",
+        `
+        import { Entity, PrimaryKey } from "@mikro-orm/core";
+
+        @Entity()
+        export class Tag {
+          @PrimaryKey()
+          group!: string;
+
+          @PrimaryKey()
+          name!: string;
+        }
+      `,
+      ],
+    ]);
+
+    const { typesCode } = generateEntityFileTypes(compositeFiles, { usePartialTypes: false });
+
+    expect(typesCode).toContain(`tags: Array<{
+        group: string;
+        name: string;
+    }>;`);
+  });
+
+  it("should reference the serialized entities with the output semantics", async () => {
+    const { typesCode } = generateEntityFileTypes(files, { usePartialTypes: true, collections: "output" });
+
+    expect(typesCode).toContain("tags: Array<schema.Tag>;");
+
+    const code = await generateEntityValidatorFromFiles(files, {
+      targetValidationLibrary: "zod",
+      collections: "output",
+      flat: true,
+      write: false,
+    });
+
+    expect(code).toContain("tags: z.array(Tag),");
+  });
+
+  const circularFiles = new Map([
+    [
+      "./src/entities/User.ts",
+      `
+      import { Collection, Entity, OneToMany, PrimaryKey } from "@mikro-orm/core";
+      import { Comment } from "./Comment";
+
+      @Entity()
+      export class User {
+        @PrimaryKey()
+        id!: number;
+
+        @OneToMany(() => Comment, (comment) => comment.author)
+        comments = new Collection<Comment>(this);
+      }
+    `,
+    ],
+    [
+      "./src/entities/Comment.ts",
+      `
+      import { Entity, ManyToOne, PrimaryKey, Property } from "@mikro-orm/core";
+      import { User } from "./User";
+
+      @Entity()
+      export class Comment {
+        @PrimaryKey()
+        id!: number;
+
+        @Property()
+        text!: string;
+
+        @ManyToOne(() => User)
+        author!: User;
+      }
+    `,
+    ],
+  ]);
+
+  it("should break the circular references of the serialized entities", () => {
+    const { typesCode } = generateEntityFileTypes(circularFiles, { usePartialTypes: true, collections: "output" });
+
+    expect(typesCode.indexOf("export type Comment = {")).toBeLessThan(typesCode.indexOf("export type User = {"));
+    expect(typesCode).toContain("comments: Array<schema.Comment>;");
+    expect(typesCode).toContain(`author: {
+        id: number;
+    };`);
+  });
+
+  it("should reference the primary keys of the serialized entities declared later", () => {
+    const forwardFiles = new Map([
+      ...circularFiles,
+      [
+        "./src/entities/Comment.ts",
+        `
+        import { Collection, Entity, ManyToMany, ManyToOne, PrimaryKey } from "@mikro-orm/core";
+        import { Tag } from "./Tag";
+        import { User } from "./User";
+
+        @Entity()
+        export class Comment {
+          @PrimaryKey()
+          id!: number;
+
+          @ManyToOne(() => User)
+          author!: User;
+
+          @ManyToMany(() => Tag)
+          tags = new Collection<Tag>(this);
+        }
+      `,
+      ],
+      ["./src/entities/Tag.ts", files.get("./src/entities/Tag.ts")!],
+    ]);
+
+    const { typesCode } = generateEntityFileTypes(forwardFiles, { usePartialTypes: true, collections: "output" });
+
+    expect(typesCode.indexOf("export type User = {")).toBeLessThan(typesCode.indexOf("export type Comment = {"));
+    expect(typesCode).toContain(`comments: Array<{
+        id: number;
+    }>;`);
+    expect(typesCode).toContain("tags: Array<schema.Tag>;");
+    expect(typesCode).not.toContain("schema.Comment");
+  });
+
+  it("should reject the unknown collection semantics", async () => {
+    await expect(
+      generateEntityValidatorFromFiles(files, { collections: "entities" as "input", write: false }),
+    ).rejects.toThrow("Unknown collection semantics: entities. The supported semantics are input, output.");
+  });
+});
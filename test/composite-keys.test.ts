@@ -0,0 +1,132 @@
+import { describe, it, expect } from "bun:test";
+import { generateEntityFileTypes, generateEntityTypes } from "../src/prepare.js";
+
+describe("Composite primary keys", () => {
+  const code = `
+    import { Entity, PrimaryKey, Property, ManyToOne, PrimaryKeyProp } from "@mikro-orm/core";
+
+    @Entity()
+    export class Order {
+      @PrimaryKey()
+      id!: number;
+    }
+
+    @Entity()
+    export class Product {
+      @PrimaryKey()
+      sku!: string;
+    }
+
+    @Entity()
+    export class OrderItem {
+      [PrimaryKeyProp]?: ["order", "product"];
+
+      @ManyToOne(() => Order, { primary: true })
+      order!: Order;
+
+      @ManyToOne({ entity: () => Product, primary: true })
+      product!: Product;
+
+      @Property()
+      amount!: number;
+    }
+
+    @Entity()
+    export class Shipment {
+      @PrimaryKey()
+      id!: number;
+
+      @ManyToOne(() => OrderItem)
+      item!: OrderItem;
+    }
+  `;
+
+  const files = new Map([["Order.ts", code]]);
+
+  it("should keep every primary key field required in partial types", () => {
+    const result = generateEntityFileTypes(files, { usePartialTypes: true }).typesCode;
+
+    expect(result).toContain(`export type PartialOrderItem = {
+    order: schema.PartialOrder;
+    product: schema.PartialProduct;
+    amount?: number;
+};`);
+    expect(result).not.toContain("PrimaryKeyProp");
+  });
+
+  it("should reference entities with composite keys by all their key fields", () => {
+    const result = generateEntityFileTypes(files, { usePartialTypes: false }).typesCode;
+
+    // Relation keys are referenced by the primary keys of the related entities
+    expect(result).toContain(`    item: {
+        order: {
+            id: number;
+        };
+        product: {
+            sku: string;
+        };
+    };`);
+  });
+
+  it("should support multiple @PrimaryKey() properties", () => {
+    const result = generateEntityTypes(`
+      import { Entity, PrimaryKey, Property, ManyToOne } from "@mikro-orm/core";
+
+      @Entity()
+      export class Translation {
+        @PrimaryKey()
+        key!: string;
+
+        @PrimaryKey()
+        locale!: string;
+
+        @Property()
+        text!: string;
+
+        @ManyToOne(() => Translation, { nullable: true })
+        fallback?: Translation;
+      }
+    `);
+
+    expect(result).toContain(`fallback?: {
+        key: string;
+        locale: string;
+    } | null;`);
+  });
+
+  it("should read the primary key fields from [PrimaryKeyProp]", () => {
+    const result = generateEntityFileTypes(
+      new Map([
+        [
+          "Tenant.ts",
+          `
+          import { Entity, PrimaryKey, Property, ManyToOne, PrimaryKeyProp } from "@mikro-orm/core";
+
+          @Entity()
+          export class Tenant {
+            [PrimaryKeyProp]?: "code";
+
+            @PrimaryKey()
+            code!: string;
+
+            @Property({ unique: true })
+            slug!: string;
+          }
+
+          @Entity()
+          export class Site {
+            @PrimaryKey()
+            id!: number;
+
+            @ManyToOne(() => Tenant)
+            tenant!: Tenant;
+          }
+        `,
+        ],
+      ]),
+      { usePartialTypes: false },
+    ).typesCode;
+
+    expect(result).toContain("tenant: {\n        code: string;\n    };");
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, writeFile, rm, readdir } from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+import { loadConfig, resolveJobs, type MikroTypeboxConfig } from "../src/config.js";
+
+describe("loadConfig", () => {
+  const testConfigDir = "./test-config-dir";
+
+  beforeEach(async () => {
+    await mkdir(testConfigDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    if (existsSync(testConfigDir)) {
+      await rm(testConfigDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should return undefined without a configuration", async () => {
+    expect(await loadConfig(undefined, testConfigDir)).toBeUndefined();
+
+    await writeFile(`${testConfigDir}/package.json`, JSON.stringify({ name: "app" }));
+    expect(await loadConfig(undefined, testConfigDir)).toBeUndefined();
+  });
+
+  it("should load a TypeScript configuration file", async () => {
+    await writeFile(
+      `${testConfigDir}/mikro-typebox.config.ts`,
+      `
+      const target: string = "zod";
+
+      export default {
+        jobs: {
+          api: { entitiesDir: "./entities", targetValidationLibrary: target },
+        },
+      };
+    `,
+    );
+
+    const loaded = await loadConfig(undefined, testConfigDir);
+
+    expect(loaded?.configPath).toBe(path.resolve(testConfigDir, "mikro-typebox.config.ts"));
+    expect(loaded?.config).toEqual({
+      jobs: { api: { entitiesDir: "./entities", targetValidationLibrary: "zod" } },
+    });
+    // the transpiled module is removed
+    expect(await readdir(testConfigDir)).toEqual(["mikro-typebox.config.ts"]);
+  });
+
+  it("should load a JSON configuration file before package.json", async () => {
+    await writeFile(
+      `${testConfigDir}/mikro-typebox.config.json`,
+      JSON.stringify({ targetValidationLibrary: "valibot" }),
+    );
+    await writeFile(
+      `${testConfigDir}/package.json`,
+      JSON.stringify({ "mikro-typebox": { targetValidationLibrary: "zod" } }),
+    );
+
+    const loaded = await loadConfig(undefined, testConfigDir);
+
+    expect(loaded?.config).toEqual({ targetValidationLibrary: "valibot" });
+  });
+
+  it("should load the mikro-typebox key of package.json", async () => {
+    await writeFile(
+      `${testConfigDir}/package.json`,
+      JSON.stringify({ name: "app", "mikro-typebox": { outputFile: "./validators.ts" } }),
+    );
+
+    const loaded = await loadConfig(undefined, testConfigDir);
+
+    expect(loaded?.configPath).toBe(path.resolve(testConfigDir, "package.json"));
+    expect(loaded?.config).toEqual({ outputFile: "./validators.ts" });
+  });
+
+  it("should load the given configuration file", async () => {
+    await writeFile(`${testConfigDir}/custom.js`, `export default { partials: false };`);
+
+    const loaded = await loadConfig("custom.js", testConfigDir);
+
+    expect(loaded?.config).toEqual({ partials: false });
+  });
+
+  it("should throw for a missing or invalid configuration file", async () => {
+    await expect(loadConfig("missing.json", testConfigDir)).rejects.toThrow("Config file does not exist");
+
+    await writeFile(`${testConfigDir}/invalid.json`, JSON.stringify({ jobs: ["api"] }));
+    await expect(loadConfig("invalid.json", testConfigDir)).rejects.toThrow(
+      "expected the jobs to be an object of jobs by name",
+    );
+  });
+});
+
+describe("resolveJobs", () => {
+  const configPath = path.resolve("project/mikro-typebox.config.json");
+
+  it("should use the top-level options as a single default job", () => {
+    expect(resolveJobs({ entitiesDir: "./src/entities", partials: false }, configPath)).toEqual([
+      { name: "default", entitiesDir: path.resolve("project/src/entities"), partials: false },
+    ]);
+  });
+
+  it("should merge the top-level options into the selected jobs", () => {
+    const config: MikroTypeboxConfig = {
+      entitiesDir: "./src/entities",
+      targetValidationLibrary: "typebox",
+      jobs: {
+        typebox: { outputFile: "./src/typebox.ts" },
+        zod: { outputFile: "./src/zod.ts", targetValidationLibrary: "zod" },
+      },
+    };
+
+    expect(resolveJobs(config, configPath)).toHaveLength(2);
+    expect(resolveJobs(config, configPath, ["zod"])).toEqual([
+      {
+        name: "zod",
+        entitiesDir: path.resolve("project/src/entities"),
+        outputFile: path.resolve("project/src/zod.ts"),
+        targetValidationLibrary: "zod",
+      },
+    ]);
+  });
+
+  it("should throw for unknown jobs", () => {
+    expect(() => resolveJobs({ jobs: { api: {} } }, configPath, ["api", "admin"])).toThrow(
+      `Unknown jobs: admin. The jobs of ${configPath} are api.`,
+    );
+  });
+});
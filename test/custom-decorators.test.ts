@@ -0,0 +1,111 @@
+import { describe, it, expect } from "bun:test";
+import { transformCustomDecorators } from "../src/custom-decorators.js";
+import { generateEntityValidatorFromFiles } from "../src/generate.js";
+import { generateEntityFileTypes } from "../src/prepare.js";
+
+describe("Custom decorators", () => {
+  const files = new Map([
+    [
+      "./src/entities/User.ts",
+      `
+      import { PrimaryKey, Property } from "@mikro-orm/core";
+      import { AuditedEntity } from "@app/orm";
+
+      @AuditedEntity()
+      export class User {
+        @PrimaryKey()
+        id!: number;
+
+        @Property()
+        name!: string;
+      }
+    `,
+    ],
+    [
+      "./src/entities/Post.ts",
+      `
+      import { PrimaryKey } from "@mikro-orm/core";
+      import * as app from "@app/orm";
+      import { User } from "./User";
+
+      @app.AuditedEntity()
+      export class Post {
+        @PrimaryKey()
+        id!: number;
+
+        @app.Ref(() => User)
+        author!: User;
+
+        createdAt!: Date;
+      }
+    `,
+    ],
+  ]);
+  const decorators = {
+    AuditedEntity: {
+      decorator: "Entity" as const,
+      from: "@app/orm",
+      properties: { createdAt: "Opt<Date>", updatedAt: "Opt<Date>" },
+    },
+    Ref: "ManyToOne" as const,
+  };
+
+  it("should replace the custom decorators with the Mikro-ORM decorators they stand for", () => {
+    const transformedFiles = transformCustomDecorators(files, decorators);
+
+    const post = transformedFiles.get("./src/entities/Post.ts")!;
+    expect(post).toContain("@Entity()\n      export class Post {");
+    expect(post).toContain("@ManyToOne(() => User)\n        author!: User;");
+    expect(post).toContain("@Property()\n  updatedAt!: Opt<Date>;");
+    expect(post).not.toContain("createdAt!: Opt<Date>;");
+  });
+
+  it("should process the entities of the custom decorators with the properties they add", () => {
+    const { typesCode } = generateEntityFileTypes(files, { usePartialTypes: true, decorators, variants: ["create"] });
+
+    expect(typesCode).toContain(`export type User = {
+    id: number;
+    name: string;
+    createdAt: Date;
+    updatedAt: Date;
+};`);
+    expect(typesCode).toContain("author: schema.PartialUser;");
+    expect(typesCode).toContain(`export type CreatePost = {
+    author: schema.PartialUser;
+    createdAt: Date;
+    updatedAt?: Date;
+};`);
+  });
+
+  it("should ignore the custom decorators imported from other modules", () => {
+    const { typesCode } = generateEntityFileTypes(
+      new Map([
+        [
+          "./src/entities/Log.ts",
+          `
+          import { PrimaryKey } from "@mikro-orm/core";
+          import { AuditedEntity } from "./legacy";
+
+          @AuditedEntity()
+          export class Log {
+            @PrimaryKey()
+            id!: number;
+          }
+        `,
+        ],
+      ]),
+      { usePartialTypes: true, decorators },
+    );
+
+    expect(typesCode).not.toContain("PartialLog");
+    expect(typesCode).not.toContain("updatedAt");
+  });
+
+  it("should reject the unknown Mikro-ORM decorators", async () => {
+    await expect(
+      generateEntityValidatorFromFiles(files, { write: false, decorators: { Ref: "BelongsTo" as "ManyToOne" } }),
+    ).rejects.toThrow(
+      "Unknown Mikro-ORM decorators of the custom decorators: Ref. The supported decorators are Entity, Embeddable,",
+    );
+  });
+});
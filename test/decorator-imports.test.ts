@@ -0,0 +1,109 @@
+import { describe, it, expect } from "bun:test";
+import { generateEntityFileTypes } from "../src/prepare.js";
+
+describe("Decorator imports", () => {
+  it("should resolve the namespaced and aliased Mikro-ORM decorators", () => {
+    const files = new Map([
+      [
+        "./src/entities/User.ts",
+        `
+        import * as orm from "@mikro-orm/core";
+        import { Post } from "./Post";
+
+        @orm.Entity()
+        export class User {
+          @orm.PrimaryKey()
+          uuid!: string;
+
+          @orm.Property({ nullable: true })
+          name?: string;
+
+          @orm.OneToMany(() => Post, (post) => post.author)
+          posts = new orm.Collection<Post>(this);
+        }
+      `,
+      ],
+      [
+        "./src/entities/Post.ts",
+        `
+        import { Entity as OrmEntity, PrimaryKey as Key, ManyToOne, Property } from "@mikro-orm/core";
+        import { User } from "./User";
+
+        @OrmEntity()
+        export class Post {
+          @Key()
+          id!: number;
+
+          @Property()
+          title!: string;
+
+          @ManyToOne(() => User)
+          author!: User;
+        }
+      `,
+      ],
+    ]);
+
+    const { typesCode } = generateEntityFileTypes(files, { usePartialTypes: true });
+
+    expect(typesCode).toContain("name?: string | null;");
+    expect(typesCode).toContain("posts: Array<number | schema.PartialPost>;");
+    expect(typesCode).toContain(`export type PartialUser = {
+    uuid: string;`);
+    expect(typesCode).toContain(`export type PartialPost = {
+    id: number;`);
+    expect(typesCode).toContain(`author: {
+        uuid: string;
+    };`);
+  });
+
+  it("should resolve the decorators used without a call", () => {
+    const files = new Map([
+      [
+        "./src/entities/Tag.ts",
+        `
+        import { Entity, PrimaryKey, Property } from "@mikro-orm/core";
+
+        @Entity
+        export class Tag {
+          @PrimaryKey
+          name!: string;
+
+          @Property
+          color?: string;
+        }
+      `,
+      ],
+    ]);
+
+    const { typesCode } = generateEntityFileTypes(files, { usePartialTypes: true });
+
+    expect(typesCode).toContain(`export type PartialTag = {
+    name: string;
+    color?: string;
+};`);
+  });
+
+  it("should ignore the decorators with the same name imported from other modules", () => {
+    const files = new Map([
+      [
+        "./src/entities/Event.ts",
+        `
+        import { PrimaryKey } from "@mikro-orm/core";
+        import { Entity } from "./custom-decorators";
+
+        @Entity()
+        export class Event {
+          @PrimaryKey()
+          id!: number;
+        }
+      `,
+      ],
+    ]);
+
+    const { typesCode } = generateEntityFileTypes(files, { usePartialTypes: true });
+
+    expect(typesCode).toContain("export type Event = {");
+    expect(typesCode).not.toContain("PartialEvent");
+  });
+});
@@ -40,7 +40,6 @@ describe("Dependency Ordering", () => {
 
     // Verify the structure is correct
     expect(result).toContain('export namespace schema {');
-    expect(result).toContain('export type Collection<T> = { [k: number]: T; };');
     expect(result).toContain('export type User = {');
     expect(result).toContain('export type Post = {');
     expect(result).toContain('export type Comment = {');
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "bun:test";
+import { generateEntityFileTypes } from "../src/prepare.js";
+
+describe("Embeddables", () => {
+  const userCode = `
+    import { Entity, PrimaryKey, Embedded } from "@mikro-orm/core";
+    import { Address } from "./Address.js";
+
+    @Entity()
+    export class User {
+      @PrimaryKey()
+      id!: number;
+
+      @Embedded(() => Address, { prefix: "home_" })
+      address!: Address;
+
+      @Embedded({ entity: () => Address, array: true })
+      previousAddresses = [];
+
+      @Embedded(() => Address, { object: true, nullable: true })
+      billingAddress?: Address;
+    }
+  `;
+
+  const addressCode = `
+    import { Embeddable, Property, Embedded } from "@mikro-orm/core";
+    import { Geo } from "./Geo.js";
+
+    @Embeddable()
+    export class Address {
+      @Property()
+      street!: string;
+
+      @Embedded(() => Geo)
+      geo!: Geo;
+    }
+  `;
+
+  const geoCode = `
+    import { Embeddable, Property } from "@mikro-orm/core";
+
+    @Embeddable()
+    export class Geo {
+      @Property()
+      lat!: number;
+
+      @Property()
+      lng!: number;
+    }
+  `;
+
+  const files = new Map([
+    ["User.ts", userCode],
+    ["Address.ts", addressCode],
+    ["Geo.ts", geoCode],
+  ]);
+
+  it("should generate named types for embeddables without partial types", () => {
+    const result = generateEntityFileTypes(files, { usePartialTypes: true }).typesCode;
+
+    expect(result).toContain("export type Address = {");
+    expect(result).toContain("export type Geo = {");
+    expect(result).not.toContain("PartialAddress");
+    expect(result).not.toContain("PartialGeo");
+    expect(result).toContain("export type PartialUser = {");
+  });
+
+  it("should reference embeddables from embedded properties", () => {
+    const result = generateEntityFileTypes(files, { usePartialTypes: true }).typesCode;
+
+    expect(result).toContain("address: Address;");
+    expect(result).toContain("previousAddresses: Address[];");
+    expect(result).toContain("billingAddress?: Address | null;");
+    expect(result).toContain("geo: Geo;");
+  });
+
+  it("should order embeddables before the entities and embeddables that embed them", () => {
+    const result = generateEntityFileTypes(files, { usePartialTypes: false }).typesCode;
+
+    const geoIndex = result.indexOf("export type Geo = {");
+    const addressIndex = result.indexOf("export type Address = {");
+    const userIndex = result.indexOf("export type User = {");
+    expect(geoIndex).toBeGreaterThan(-1);
+    expect(addressIndex).toBeGreaterThan(geoIndex);
+    expect(userIndex).toBeGreaterThan(addressIndex);
+  });
+
+  it("should support polymorphic embeddables", () => {
+    const ownerCode = `
+      import { Entity, PrimaryKey, Embedded } from "@mikro-orm/core";
+
+      @Entity()
+      export class Owner {
+        @PrimaryKey()
+        id!: number;
+
+        @Embedded(() => [Cat, Dog], { array: true })
+        pets = [];
+      }
+    `;
+
+    const petsCode = `
+      import { Embeddable, Property } from "@mikro-orm/core";
+
+      @Embeddable()
+      export class Cat {
+        @Property()
+        canMeow!: boolean;
+      }
+
+      @Embeddable()
+      export class Dog {
+        @Property()
+        canBark!: boolean;
+      }
+    `;
+
+    const result = generateEntityFileTypes(
+      new Map([
+        ["Owner.ts", ownerCode],
+        ["Pets.ts", petsCode],
+      ]),
+      { usePartialTypes: true },
+    ).typesCode;
+
+    expect(result).toContain("pets: (Cat | Dog)[];");
+    expect(result.indexOf("export type Cat = {")).toBeLessThan(
+      result.indexOf("export type Owner = {"),
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdir, writeFile, rm } from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+import { getGlobBase, globToRegExp } from "../src/glob.js";
+import { generateEntityValidator, readEntities } from "../src/generate.js";
+
+describe("globToRegExp", () => {
+  it("should match the glob syntax", () => {
+    expect(globToRegExp("src/*.ts").test("src/User.ts")).toBe(true);
+    expect(globToRegExp("src/*.ts").test("src/users/User.ts")).toBe(false);
+    expect(globToRegExp("src/**/*.ts").test("src/User.ts")).toBe(true);
+    expect(globToRegExp("src/**/*.ts").test("src/modules/users/User.ts")).toBe(true);
+    expect(globToRegExp("src/**").test("src/modules/users/User.ts")).toBe(true);
+    expect(globToRegExp("src/?.ts").test("src/a.ts")).toBe(true);
+    expect(globToRegExp("src/[!a]*.ts").test("src/a.ts")).toBe(false);
+    expect(globToRegExp("src/{users,posts}/*.ts").test("src/posts/Post.ts")).toBe(true);
+    expect(globToRegExp("src/{users,posts}/*.ts").test("src/tags/Tag.ts")).toBe(false);
+    expect(globToRegExp("src/user.entity.ts").test("src/user-entity.ts")).toBe(false);
+  });
+
+  it("should get the directory before the glob segments", () => {
+    expect(getGlobBase("src/modules/*/entities/*.ts")).toBe("src/modules");
+    expect(getGlobBase("**/*.ts")).toBe(".");
+    expect(getGlobBase("/project/src/**")).toBe("/project/src");
+  });
+});
+
+describe("Entity discovery", () => {
+  const testEntitiesDir = "./test-discovery-entities";
+
+  const entityCode = (name: string) => `
+    import { Entity, PrimaryKey } from "@mikro-orm/core";
+
+    @Entity()
+    export class ${name} {
+      @PrimaryKey()
+      id!: number;
+    }
+  `;
+
+  const relativePaths = (filesMap: Map<string, string>) =>
+    [...filesMap.keys()].map((filePath) => path.relative(testEntitiesDir, filePath)).sort();
+
+  beforeAll(async () => {
+    await mkdir(`${testEntitiesDir}/modules/users/entities`, { recursive: true });
+    await mkdir(`${testEntitiesDir}/modules/posts/entities`, { recursive: true });
+    await mkdir(`${testEntitiesDir}/shared`, { recursive: true });
+    await writeFile(`${testEntitiesDir}/modules/users/entities/user.entity.ts`, entityCode("User"));
+    await writeFile(`${testEntitiesDir}/modules/users/entities/user.entity.spec.ts`, "");
+    await writeFile(`${testEntitiesDir}/modules/users/users.service.ts`, "");
+    await writeFile(`${testEntitiesDir}/modules/posts/entities/post.entity.ts`, entityCode("Post"));
+    await writeFile(`${testEntitiesDir}/shared/tag.entity.ts`, entityCode("Tag"));
+    await writeFile(`${testEntitiesDir}/shared/README.md`, "");
+  });
+
+  afterAll(async () => {
+    if (existsSync(testEntitiesDir)) {
+      await rm(testEntitiesDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should search the entity directories recursively", async () => {
+    const filesMap = await readEntities({ entitiesDir: testEntitiesDir });
+
+    expect(relativePaths(filesMap)).toEqual([
+      "modules/posts/entities/post.entity.ts",
+      "modules/users/entities/user.entity.spec.ts",
+      "modules/users/entities/user.entity.ts",
+      "modules/users/users.service.ts",
+      "shared/tag.entity.ts",
+    ]);
+  });
+
+  it("should read the files matching glob patterns from multiple roots", async () => {
+    const filesMap = await readEntities({
+      entitiesDir: [`${testEntitiesDir}/modules/*/entities/*.entity.ts`, `${testEntitiesDir}/shared`],
+    });
+
+    expect(relativePaths(filesMap)).toEqual([
+      "modules/posts/entities/post.entity.ts",
+      "modules/users/entities/user.entity.ts",
+      "shared/tag.entity.ts",
+    ]);
+  });
+
+  it("should skip the excluded files", async () => {
+    const filesMap = await readEntities({
+      entitiesDir: testEntitiesDir,
+      excludeFiles: ["*.spec.ts", `${testEntitiesDir}/**/*.service.ts`],
+    });
+
+    expect(relativePaths(filesMap)).toEqual([
+      "modules/posts/entities/post.entity.ts",
+      "modules/users/entities/user.entity.ts",
+      "shared/tag.entity.ts",
+    ]);
+  });
+
+  it("should generate the schemas of the nested entities", async () => {
+    const result = await generateEntityValidator({
+      entitiesDir: `${testEntitiesDir}/**/*.entity.ts`,
+      write: false,
+    });
+
+    expect(result).toContain("export const User = Type.Object(");
+    expect(result).toContain("export const Post = Type.Object(");
+    expect(result).toContain("export const Tag = Type.Object(");
+  });
+
+  it("should throw for a missing root", async () => {
+    await expect(
+      readEntities({ entitiesDir: [testEntitiesDir, `./test-discovery-missing/**/*.ts`] }),
+    ).rejects.toThrow("Entities directory does not exist");
+  });
+});
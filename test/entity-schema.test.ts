@@ -0,0 +1,362 @@
+import { describe, it, expect } from "bun:test";
+import { rm, writeFile } from "fs/promises";
+import * as ts from "typescript";
+import { transformEntitySchemas } from "../src/entity-schema.js";
+import { generateEntityValidatorFromFiles } from "../src/generate.js";
+import { generateEntityFileTypes } from "../src/prepare.js";
+
+describe("EntitySchema and defineEntity", () => {
+  it("should convert an EntitySchema to a decorated entity class", () => {
+    const files = new Map([
+      [
+        "User.ts",
+        `
+        import { EntitySchema } from "@mikro-orm/core";
+
+        export interface IUser {
+          id: number;
+          name: string;
+          nickname?: string;
+        }
+
+        export const User = new EntitySchema<IUser>({
+          name: "User",
+          tableName: "users",
+          properties: {
+            id: { type: "number", primary: true },
+            name: { type: "string", length: 100 },
+            nickname: { type: "string", nullable: true },
+            password: { type: "string", hidden: true },
+          },
+        });
+      `,
+      ],
+    ]);
+
+    const content = transformEntitySchemas(files).get("User.ts")!;
+
+    expect(content).not.toContain("interface IUser");
+    expect(content).not.toContain("new EntitySchema");
+    expect(content).toContain(`@Entity({ tableName: "users" })
+export class User {
+    @PrimaryKey({ type: "number", primary: true })
+    id: number;
+    @Property({ type: "string", length: 100 })
+    name: string;
+    @Property({ type: "string", nullable: true })
+    nickname?: string;
+    @Property({ type: "string", hidden: true })
+    password: string;
+}`);
+  });
+
+  it("should leave the files without definitions unchanged", () => {
+    const files = new Map([["User.ts", "@Entity()\nexport class User {}"]]);
+
+    expect(transformEntitySchemas(files)).toBe(files);
+  });
+
+  it("should map the EntitySchema relations, enums and the class property types", () => {
+    const files = new Map([
+      [
+        "Author.ts",
+        `
+        import { Collection, EntitySchema, ReferenceKind } from "@mikro-orm/core";
+        import { Book } from "./Book";
+
+        export enum AuthorRole {
+          Admin = "admin",
+          User = "user",
+        }
+
+        export class Author {
+          id!: number;
+          name!: string;
+          books = new Collection<Book>(this);
+        }
+
+        export const AuthorSchema = new EntitySchema({
+          class: Author,
+          properties: {
+            id: { type: Number, primary: true },
+            name: { type: "string" },
+            role: { enum: true, items: () => AuthorRole },
+            books: { kind: ReferenceKind.ONE_TO_MANY, entity: () => Book, mappedBy: "author" },
+          },
+        });
+      `,
+      ],
+      [
+        "Book.ts",
+        `
+        import { EntitySchema } from "@mikro-orm/core";
+
+        export const BookSchema = new EntitySchema({
+          name: "Book",
+          properties: {
+            id: { type: "integer", primary: true },
+            author: { kind: "m:1", entity: "Author" },
+            publishedAt: { type: "datetime", nullable: true },
+          },
+        });
+      `,
+      ],
+    ]);
+
+    const { typesCode } = generateEntityFileTypes(files, { usePartialTypes: false });
+
+    expect(typesCode).toContain(`export type Author = {
+    id: number;
+    name: string;
+    role: AuthorRole;
+    books: Array<number | {
+        id: number;
+    }>;
+};`);
+    expect(typesCode).toContain(`export type Book = {
+    id: number;
+    author: {
+        id: number;
+    };
+    publishedAt?: Date | null;
+};`);
+  });
+
+  it("should keep the type aliases which are not inferred from the definitions", () => {
+    const files = new Map([
+      [
+        "User.ts",
+        `
+        import { EntitySchema } from "@mikro-orm/core";
+
+        export const Role = {
+          Admin: "admin",
+          Member: "member",
+        } as const;
+
+        export type Role = (typeof Role)[keyof typeof Role];
+
+        export interface IUser {
+          id: number;
+          role: Role;
+        }
+
+        export const User = new EntitySchema<IUser>({
+          name: "User",
+          properties: {
+            id: { type: "number", primary: true },
+            role: { enum: true, items: () => Role },
+          },
+        });
+
+        export type UserEntity = typeof User;
+      `,
+      ],
+    ]);
+
+    const transformedFiles = transformEntitySchemas(files);
+    expect(transformedFiles.get("User.ts")).toContain("export type Role = (typeof Role)[keyof typeof Role];");
+    expect(transformedFiles.get("User.ts")).not.toContain("UserEntity");
+
+    const { typesCode } = generateEntityFileTypes(files, { usePartialTypes: false });
+    expect(typesCode).toContain('export type Role = "admin" | "member";');
+    expect(typesCode).toContain(`export type User = {
+    id: number;
+    role: Role;
+};`);
+  });
+
+  it("should convert the defineEntity property builders", () => {
+    const files = new Map([
+      [
+        "Post.ts",
+        `
+        import { defineEntity, p, type InferEntity } from "@mikro-orm/core";
+        import { User } from "./User";
+
+        export const Post = defineEntity({
+          name: "Post",
+          properties: {
+            id: p.integer().primary(),
+            title: p.string().length(255),
+            price: p.decimal().precision(10).scale(2).nullable(),
+            status: p.enum(["draft", "published"]),
+            meta: p.json<{ pages: number }>(),
+            slug: p.string().$type<\`post-\${string}\`>(),
+            author: () => p.manyToOne(User),
+            views: p.integer().persist(false),
+          },
+        });
+
+        export type IPost = InferEntity<typeof Post>;
+      `,
+      ],
+      [
+        "User.ts",
+        `
+        import { defineEntity, p } from "@mikro-orm/core";
+
+        export const User = defineEntity({
+          name: "User",
+          properties: (p) => ({
+            id: p.uuid().primary(),
+          }),
+        });
+      `,
+      ],
+    ]);
+
+    const { typesCode } = generateEntityFileTypes(files, { usePartialTypes: false });
+
+    expect(typesCode).not.toContain("IPost");
+    expect(typesCode).toContain(`export type Post = {
+    id: number;
+    /**
+     * @maxLength '255'
+     */
+    title: string;
+    /**
+     * @pattern '"^-?\\\\d{1,8}(\\\\.\\\\d{1,2})?$"'
+     */
+    price?: string | null;
+    status: "draft" | "published";
+    meta: {
+        pages: number;
+    };
+    slug: \`post-\${string}\`;
+    author: {
+        id: string;
+    };
+    views?: number;
+};`);
+  });
+
+  it("should convert the embeddables and the single table inheritance options", async () => {
+    const files = new Map([
+      [
+        "Person.ts",
+        `
+        import { EntitySchema } from "@mikro-orm/core";
+
+        export const AddressSchema = new EntitySchema({
+          name: "Address",
+          embeddable: true,
+          properties: {
+            city: { type: "string" },
+          },
+        });
+
+        export const PersonSchema = new EntitySchema({
+          name: "Person",
+          abstract: true,
+          discriminatorColumn: "type",
+          properties: {
+            id: { type: "number", primary: true },
+            type: { type: "string" },
+            address: { kind: "embedded", entity: () => AddressSchema },
+          },
+        });
+
+        export const EmployeeSchema = new EntitySchema({
+          name: "Employee",
+          extends: PersonSchema,
+          properties: {
+            salary: { type: "number" },
+          },
+        });
+
+        export const CustomerSchema = new EntitySchema({
+          name: "Customer",
+          extends: "Person",
+          properties: {
+            company: { type: "string" },
+          },
+        });
+      `,
+      ],
+    ]);
+
+    const code = await generateEntityValidatorFromFiles(files, { write: false });
+
+    expect(code).toContain("export const Address = Type.Object({\n    city: Type.String(),\n  });");
+    expect(code).toContain(`export const Employee = Type.Object({
+    id: Type.Number(),
+    type: Type.Literal("employee"),
+    address: Address,
+    salary: Type.Number(),
+  });`);
+    expect(code).toContain("export const PersonUnion = Type.Union([Employee, Customer]);");
+  });
+
+  it("should reference the related entities instead of the interfaces of the EntitySchema types", async () => {
+    const files = new Map([
+      [
+        "Book.ts",
+        `
+        import { Collection, EntitySchema } from "@mikro-orm/core";
+
+        export interface IAuthor {
+          id: number;
+          books: Collection<IBook>;
+        }
+
+        export interface IBook {
+          id: number;
+          author: IAuthor;
+          coAuthor?: IAuthor;
+        }
+
+        export const Author = new EntitySchema<IAuthor>({
+          name: "Author",
+          properties: {
+            id: { type: "number", primary: true },
+            books: { kind: "1:m", entity: () => Book, mappedBy: "author" },
+          },
+        });
+
+        export const Book = new EntitySchema<IBook>({
+          name: "Book",
+          properties: {
+            id: { type: "number", primary: true },
+            author: { kind: "m:1", entity: () => Author },
+            coAuthor: { kind: "m:1", entity: "Author", nullable: true },
+          },
+        });
+      `,
+      ],
+    ]);
+
+    const { typesCode } = generateEntityFileTypes(files, { usePartialTypes: true });
+    expect(typesCode).not.toContain("IAuthor");
+    expect(typesCode).toContain("books: Array<number | schema.PartialBook>;");
+    expect(typesCode).toContain(`export type Book = {
+    id: number;
+    author: {
+        id: number;
+    };
+    coAuthor?: {
+        id: number;
+    } | null;
+};`);
+
+    // the generated schemas only reference the declared schemas
+    const outputFile = "./test-entity-schema-validators.ts";
+    await writeFile(outputFile, await generateEntityValidatorFromFiles(files, { write: false }));
+    try {
+      const program = ts.createProgram([outputFile], {
+        strict: true,
+        noEmit: true,
+        skipLibCheck: true,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+        target: ts.ScriptTarget.ES2022,
+      });
+      const diagnostics = ts
+        .getPreEmitDiagnostics(program)
+        .map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"));
+      expect(diagnostics).toEqual([]);
+    } finally {
+      await rm(outputFile, { force: true });
+    }
+  });
+});
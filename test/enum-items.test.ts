@@ -0,0 +1,81 @@
+import { describe, it, expect } from "bun:test";
+import { generateEntityValidatorFromFiles } from "../src/generate.js";
+import { generateEntityFileTypes } from "../src/prepare.js";
+
+describe("Enum items", () => {
+  const files = new Map([
+    [
+      "./src/entities/User.ts",
+      `
+      import { Entity, Enum, PrimaryKey } from "@mikro-orm/core";
+
+      export enum Role {
+        Admin = "admin",
+        Member = "member",
+      }
+
+      export const Status = {
+        Active: "active",
+        Banned: "banned",
+      } as const;
+
+      export type Status = (typeof Status)[keyof typeof Status];
+
+      @Entity()
+      export class User {
+        @PrimaryKey()
+        id!: number;
+
+        @Enum({ items: () => Role, array: true })
+        roles!: Role[];
+
+        @Enum({ items: () => Role, array: true })
+        previousRoles!: Role;
+
+        @Enum({ items: ["light", "dark"] })
+        theme!: string;
+
+        @Enum({ items: [1, 2, 3], array: true, nullable: true })
+        levels?: number[];
+
+        @Enum(() => Status)
+        status!: Status;
+
+        @Enum({ items: () => Status, array: true })
+        history = [];
+      }
+    `,
+    ],
+  ]);
+
+  it("should type the enum properties with the items of their decorator", () => {
+    const { typesCode } = generateEntityFileTypes(files);
+
+    expect(typesCode).toContain("roles: Role[];");
+    expect(typesCode).toContain("previousRoles: Role[];");
+    expect(typesCode).toContain('theme: "light" | "dark";');
+    expect(typesCode).toContain("levels?: (1 | 2 | 3)[] | null;");
+    expect(typesCode).toContain("status: Status;");
+    expect(typesCode).toContain('history: ("active" | "banned")[];');
+  });
+
+  it("should replace the as const objects with the literal unions of their values", () => {
+    const { typesCode } = generateEntityFileTypes(files);
+
+    expect(typesCode).toContain('export type Status = "active" | "banned";');
+    expect(typesCode).not.toContain("export const Status");
+    expect(typesCode).not.toContain("typeof Status");
+  });
+
+  it("should generate the enum and literal union schemas", async () => {
+    const code = await generateEntityValidatorFromFiles(files, { write: false });
+
+    expect(code).toContain('import { Role as EnumRole } from "./entities/User.js";');
+    expect(code).toContain("export const Role = Type.Enum(EnumRole);");
+    expect(code).toContain("roles: Type.Array(Role),");
+    expect(code).toContain("previousRoles: Type.Array(Role),");
+    expect(code).toContain('theme: Type.Union([Type.Literal("light"), Type.Literal("dark")]),');
+    expect(code).toContain('export const Status = Type.Union([\n    Type.Literal("active"),\n    Type.Literal("banned"),\n  ]);');
+    expect(code).toContain("status: Status,");
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdir, writeFile, rm } from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+import { generateEntityValidator } from "../src/generate.js";
+import { generateEntityFileTypes } from "../src/prepare.js";
+
+describe("Flat output", () => {
+  const testEntitiesDir = "./test-flat-entities";
+  const testOutputFile = "./test-flat-output/validators.ts";
+
+  const files = new Map([
+    [
+      "Comment.ts",
+      `
+      import { Entity, ManyToOne, PrimaryKey, Property } from "@mikro-orm/core";
+
+      @Entity()
+      export class Comment {
+        @PrimaryKey()
+        id!: number;
+
+        @ManyToOne(() => Post)
+        post!: Post;
+      }
+    `,
+    ],
+    [
+      "Post.ts",
+      `
+      import { Entity, OneToMany, PrimaryKey, Property, Collection } from "@mikro-orm/core";
+
+      @Entity()
+      export class Post {
+        @PrimaryKey()
+        id!: number;
+
+        @Property()
+        title!: string;
+
+        @OneToMany(() => Comment, (comment) => comment.post)
+        comments = new Collection<Comment>(this);
+      }
+    `,
+    ],
+  ]);
+
+  beforeAll(async () => {
+    await mkdir(testEntitiesDir, { recursive: true });
+    for (const [fileName, code] of files) {
+      await writeFile(`${testEntitiesDir}/${fileName}`, code);
+    }
+  });
+
+  afterAll(async () => {
+    for (const dir of [testEntitiesDir, path.dirname(testOutputFile)]) {
+      if (existsSync(dir)) {
+        await rm(dir, { recursive: true, force: true });
+      }
+    }
+  });
+
+  it("should declare the types without namespace schema", () => {
+    const { typesCode } = generateEntityFileTypes(files, { usePartialTypes: true, flat: true });
+
+    expect(typesCode).not.toContain("namespace schema");
+    expect(typesCode).not.toContain("schema.");
+    expect(typesCode).toContain("post: PartialPost;");
+  });
+
+  it("should export the renamed schemas after the schemas they reference", async () => {
+    await generateEntityValidator({
+      entitiesDir: testEntitiesDir,
+      outputFile: testOutputFile,
+      flat: true,
+      naming: { schema: "{name}Schema" },
+      write: true,
+    });
+
+    const validators = await import(path.resolve(testOutputFile));
+
+    expect(Object.keys(validators).sort()).toEqual([
+      "CommentSchema",
+      "PartialCommentSchema",
+      "PartialPostSchema",
+      "PostSchema",
+    ]);
+    expect(validators.CommentSchema.properties.post).toBe(validators.PartialPostSchema);
+  });
+
+  it("should name the schemas of the other libraries without the namespace prefix", async () => {
+    const code = await generateEntityValidator({
+      entitiesDir: testEntitiesDir,
+      targetValidationLibrary: "zod",
+      flat: true,
+      naming: { schema: "{name}Schema" },
+      write: false,
+    });
+
+    expect(code).not.toContain("schema_");
+    expect(code).toContain("export type Post = z.infer<typeof PostSchema>;\nexport const PostSchema = z.object({");
+  });
+
+  it("should rename the schemas of the namespace", async () => {
+    const code = await generateEntityValidator({
+      entitiesDir: testEntitiesDir,
+      naming: { schema: "{name}Schema" },
+      write: false,
+    });
+
+    expect(code).toContain("export namespace schema {");
+    expect(code).toContain("export type Comment = Static<typeof CommentSchema>;");
+    expect(code).toContain("post: schema.PartialPostSchema,");
+  });
+});
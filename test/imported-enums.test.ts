@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdir, writeFile, rm } from "fs/promises";
+import { generateEntityValidator, generateEntityValidatorFromFiles } from "../src/generate.js";
+import { generateEntityFileTypes } from "../src/prepare.js";
+
+describe("Imported enums", () => {
+  const testProjectDir = "./test-imported-enums";
+  const testEntitiesDir = `${testProjectDir}/src/entities`;
+
+  beforeAll(async () => {
+    await mkdir(testEntitiesDir, { recursive: true });
+    await mkdir(`${testProjectDir}/src/enums`, { recursive: true });
+    await mkdir(`${testProjectDir}/src/shared/enums`, { recursive: true });
+    await writeFile(
+      `${testProjectDir}/tsconfig.json`,
+      JSON.stringify({
+        compilerOptions: {
+          baseUrl: ".",
+          module: "esnext",
+          moduleResolution: "bundler",
+          paths: { "@shared/*": ["src/shared/*"] },
+        },
+      }),
+    );
+    await writeFile(
+      `${testProjectDir}/src/enums/role.ts`,
+      `
+      export enum Role {
+        Admin = "admin",
+        Member = "member",
+      }
+    `,
+    );
+    await writeFile(
+      `${testProjectDir}/src/shared/enums/status.ts`,
+      `
+      export enum Status {
+        Draft = "draft",
+        Published = "published",
+      }
+    `,
+    );
+    await writeFile(`${testProjectDir}/src/shared/enums/index.ts`, `export * from "./status";\n`);
+    await writeFile(
+      `${testEntitiesDir}/User.ts`,
+      `
+      import { Entity, Enum, PrimaryKey } from "@mikro-orm/core";
+      import { Role } from "../enums/role";
+
+      @Entity()
+      export class User {
+        @PrimaryKey()
+        id!: number;
+
+        @Enum(() => Role)
+        role!: Role;
+      }
+    `,
+    );
+    await writeFile(
+      `${testEntitiesDir}/Post.ts`,
+      `
+      import { Entity, Enum, PrimaryKey } from "@mikro-orm/core";
+      import { Status } from "@shared/enums";
+
+      @Entity()
+      export class Post {
+        @PrimaryKey()
+        id!: number;
+
+        @Enum(() => Status)
+        status!: Status;
+      }
+    `,
+    );
+  });
+
+  afterAll(async () => {
+    await rm(testProjectDir, { recursive: true, force: true });
+  });
+
+  it("should declare the enums imported from relative modules with the entity types", () => {
+    const files = new Map([
+      [
+        `${testEntitiesDir}/User.ts`,
+        `
+        import { Entity, Enum, PrimaryKey } from "@mikro-orm/core";
+        import { Role } from "../enums/role";
+
+        @Entity()
+        export class User {
+          @PrimaryKey()
+          id!: number;
+
+          @Enum(() => Role)
+          role!: Role;
+        }
+      `,
+      ],
+    ]);
+
+    const { typesCode, enumDefinitions } = generateEntityFileTypes(files);
+
+    expect(typesCode).toContain(`export enum Role {
+        Admin = "admin",
+        Member = "member",
+      }`);
+    expect(enumDefinitions.get("Role")).toEndWith("test-imported-enums/src/enums/role.ts");
+  });
+
+  it("should import the enums from relative modules and tsconfig paths in the output file", async () => {
+    const code = await generateEntityValidator({
+      entitiesDir: testEntitiesDir,
+      outputFile: `${testProjectDir}/src/validators/entity-validators.ts`,
+      write: false,
+    });
+
+    expect(code).toContain('import { Role as EnumRole } from "../enums/role.js";');
+    expect(code).toContain('import { Status as EnumStatus } from "../shared/enums/status.js";');
+    expect(code).toContain("export const Role = Type.Enum(EnumRole);");
+    expect(code).toContain("export const Status = Type.Enum(EnumStatus);");
+    expect(code).toContain("role: Role,");
+    expect(code).toContain("status: Status,");
+  });
+
+  it("should declare the enums imported with an alias by their alias", async () => {
+    const files = new Map([
+      [
+        `${testEntitiesDir}/Member.ts`,
+        `
+        import { Entity, Enum, PrimaryKey } from "@mikro-orm/core";
+        import { Role as MemberRole } from "../enums/role";
+
+        @Entity()
+        export class Member {
+          @PrimaryKey()
+          id!: number;
+
+          @Enum(() => MemberRole)
+          role!: MemberRole;
+        }
+      `,
+      ],
+    ]);
+
+    const { typesCode, enumDefinitions } = generateEntityFileTypes(files);
+    expect(typesCode).toContain("export enum MemberRole {");
+    expect(enumDefinitions.get("MemberRole")).toEndWith("test-imported-enums/src/enums/role.ts");
+
+    const code = await generateEntityValidatorFromFiles(files, {
+      outputFile: `${testProjectDir}/src/validators/entity-validators.ts`,
+      write: false,
+    });
+    expect(code).toContain('import { Role as EnumMemberRole } from "../enums/role.js";');
+    expect(code).toContain("export const MemberRole = Type.Enum(EnumMemberRole);");
+    expect(code).toContain("role: MemberRole,");
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdir, writeFile, rm } from "fs/promises";
+import { loadCompilerOptions } from "../src/checker.js";
+import { generateEntityValidator } from "../src/generate.js";
+import { generateEntityFileTypes } from "../src/prepare.js";
+
+describe("Imported types", () => {
+  const testProjectDir = "./test-imported-types";
+  const testEntitiesDir = `${testProjectDir}/src/entities`;
+  const userEntity = `
+    import { Entity, PrimaryKey, Property } from "@mikro-orm/core";
+    import { Address, Money, Theme } from "../types";
+    import type { UserSettings } from "@shared/settings";
+    import { formatName } from "../utils";
+
+    @Entity()
+    export class User {
+      @PrimaryKey()
+      id!: number;
+
+      @Property({ type: "json" })
+      address!: Address;
+
+      @Property({ type: "json" })
+      balance!: Money;
+
+      @Property()
+      theme!: Theme;
+
+      @Property({ type: "json" })
+      settings!: UserSettings;
+
+      get displayName() {
+        return formatName(this.id);
+      }
+    }
+  `;
+
+  beforeAll(async () => {
+    await mkdir(testEntitiesDir, { recursive: true });
+    await mkdir(`${testProjectDir}/src/types`, { recursive: true });
+    await mkdir(`${testProjectDir}/src/shared`, { recursive: true });
+    await writeFile(
+      `${testProjectDir}/tsconfig.json`,
+      JSON.stringify({
+        compilerOptions: {
+          baseUrl: ".",
+          module: "esnext",
+          moduleResolution: "bundler",
+          paths: { "@shared/*": ["src/shared/*"] },
+        },
+      }),
+    );
+    await writeFile(
+      `${testProjectDir}/src/types/index.ts`,
+      `
+      import { Currency } from "@shared/money";
+
+      interface Country {
+        code: string;
+      }
+
+      export interface Address {
+        street: string;
+        country: Country;
+      }
+
+      export type Theme = "light" | "dark";
+
+      export class Money {
+        amount!: number;
+        currency!: Currency;
+
+        format(): string {
+          return \`\${this.amount} \${this.currency}\`;
+        }
+      }
+    `,
+    );
+    await writeFile(`${testProjectDir}/src/shared/money.ts`, `export type Currency = "EUR" | "USD";\n`);
+    await writeFile(
+      `${testProjectDir}/src/shared/settings.ts`,
+      `
+      import type { Theme } from "../types";
+
+      export interface UserSettings {
+        theme: Theme;
+        notifications?: boolean;
+      }
+    `,
+    );
+    await writeFile(
+      `${testProjectDir}/src/utils.ts`,
+      `export function formatName(id: number): string {\n  return String(id);\n}\n`,
+    );
+    await writeFile(`${testEntitiesDir}/User.ts`, userEntity);
+  });
+
+  afterAll(async () => {
+    await rm(testProjectDir, { recursive: true, force: true });
+  });
+
+  it("should declare the imported types before the entities, after the types they reference", () => {
+    const { typesCode } = generateEntityFileTypes(new Map([[`${testEntitiesDir}/User.ts`, userEntity]]), {
+      compilerOptions: loadCompilerOptions(testEntitiesDir),
+    });
+
+    const declarationIndex = (declaration: string) => {
+      expect(typesCode).toContain(declaration);
+      return typesCode.indexOf(declaration);
+    };
+    expect(declarationIndex("interface Country {")).toBeLessThan(declarationIndex("export interface Address {"));
+    expect(declarationIndex("export type Theme =")).toBeLessThan(declarationIndex("export interface UserSettings {"));
+    expect(declarationIndex('export type Currency = "EUR" | "USD";')).toBeLessThan(
+      declarationIndex("export type Money = {"),
+    );
+    expect(declarationIndex("export interface UserSettings {")).toBeLessThan(declarationIndex("export type User = {"));
+    expect(typesCode).not.toContain("format(");
+    expect(typesCode).not.toContain("formatName");
+  });
+
+  it("should declare the types imported with an alias by their alias", () => {
+    const { typesCode } = generateEntityFileTypes(
+      new Map([
+        [
+          `${testEntitiesDir}/Shop.ts`,
+          `
+          import { Entity, PrimaryKey, Property } from "@mikro-orm/core";
+          import { Address as ShopAddress } from "../types";
+
+          @Entity()
+          export class Shop {
+            @PrimaryKey()
+            id!: number;
+
+            @Property({ type: "json" })
+            address!: ShopAddress;
+          }
+        `,
+        ],
+      ]),
+      { compilerOptions: loadCompilerOptions(testEntitiesDir) },
+    );
+
+    expect(typesCode).toContain("export interface ShopAddress {");
+    expect(typesCode).toContain("interface Country {");
+    expect(typesCode).toContain("address: ShopAddress;");
+    expect(typesCode).not.toContain("interface Address {");
+  });
+
+  it("should generate the schemas of the types imported from relative modules and tsconfig paths", async () => {
+    const code = await generateEntityValidator({
+      entitiesDir: testEntitiesDir,
+      outputFile: `${testProjectDir}/src/entity-validators.ts`,
+      write: false,
+    });
+
+    expect(code).toContain("export const Address = Type.Object({");
+    expect(code).toContain("country: Country,");
+    expect(code).toContain("export const Money = Type.Object({");
+    expect(code).toContain("currency: Currency,");
+    expect(code).toContain("theme: Theme,");
+    expect(code).toContain("export const UserSettings = Type.Object({");
+    expect(code).toContain("address: Address,");
+    expect(code).toContain("balance: Money,");
+    expect(code).toContain("settings: UserSettings,");
+  });
+});
@@ -0,0 +1,347 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdir, writeFile, rm } from "fs/promises";
+import { existsSync } from "fs";
+import { generateEntityValidator } from "../src/generate.js";
+import { generateEntityFileTypes, generateEntityTypes } from "../src/prepare.js";
+
+describe("Entity inheritance", () => {
+  const baseEntityCode = `
+    import { PrimaryKey, Property } from "@mikro-orm/core";
+
+    export abstract class BaseEntity {
+      @PrimaryKey()
+      id!: number;
+
+      @Property()
+      createdAt: Date = new Date();
+
+      @Property({ onUpdate: () => new Date() })
+      updatedAt: Date = new Date();
+    }
+  `;
+
+  const userCode = `
+    import { Entity, Property, ManyToOne } from "@mikro-orm/core";
+    import { BaseEntity } from "./BaseEntity.js";
+
+    export abstract class NamedEntity extends BaseEntity {
+      @Property({ length: 100 })
+      name!: string;
+    }
+
+    @Entity()
+    export class User extends NamedEntity {
+      @Property()
+      email!: string;
+
+      @ManyToOne(() => User, { nullable: true })
+      invitedBy?: User;
+    }
+  `;
+
+  const postCode = `
+    import { Entity, Property, ManyToOne } from "@mikro-orm/core";
+    import { BaseEntity } from "./BaseEntity.js";
+    import { User } from "./User.js";
+
+    @Entity()
+    export class Post extends BaseEntity {
+      @Property()
+      title!: string;
+
+      @ManyToOne(() => User)
+      author!: User;
+    }
+  `;
+
+  const files = new Map([
+    ["Post.ts", postCode],
+    ["User.ts", userCode],
+    ["BaseEntity.ts", baseEntityCode],
+  ]);
+
+  it("should add the members inherited from base classes declared in other files", () => {
+    const result = generateEntityFileTypes(files, { usePartialTypes: true }).typesCode;
+
+    expect(result).toContain(`export type User = {
+    id: number;
+    createdAt: Date;
+    updatedAt: Date;
+    /**
+     * @maxLength '100'
+     */
+    name: string;
+    email: string;`);
+    expect(result).toContain(`export type Post = {
+    id: number;
+    createdAt: Date;
+    updatedAt: Date;
+    title: string;`);
+  });
+
+  it("should inherit the primary key of base classes", () => {
+    const result = generateEntityFileTypes(files, { usePartialTypes: true }).typesCode;
+
+    expect(result).toContain("export type PartialUser = {\n    id: number;");
+    expect(result).toContain("author: schema.PartialUser;");
+
+    const inlinedResult = generateEntityFileTypes(files, { usePartialTypes: false }).typesCode;
+    expect(inlinedResult).toContain("author: {\n        id: number;\n    };");
+  });
+
+  it("should let derived classes override inherited properties", () => {
+    const code = `
+      import { Entity, PrimaryKey, Property } from "@mikro-orm/core";
+
+      abstract class Base {
+        @PrimaryKey()
+        id!: number;
+
+        @Property()
+        status!: string;
+      }
+
+      @Entity()
+      export class Task extends Base {
+        @Property()
+        status!: "open" | "done";
+      }
+    `;
+
+    const result = generateEntityTypes(code);
+
+    expect(result).toContain(`export type Task = {
+    id: number;
+    status: "open" | "done";
+};`);
+  });
+
+  describe("Single table inheritance", () => {
+    const personCode = `
+      import { Entity, Enum, Property } from "@mikro-orm/core";
+      import { BaseEntity } from "./BaseEntity.js";
+
+      @Entity({
+        discriminatorColumn: "type",
+        discriminatorMap: { person: "Person", employee: "Employee", manager: "Manager" },
+      })
+      export class Person extends BaseEntity {
+        @Enum()
+        type!: "person" | "employee" | "manager";
+
+        @Property()
+        name!: string;
+      }
+    `;
+
+    const employeeCode = `
+      import { Entity, Property } from "@mikro-orm/core";
+      import { Person } from "./Person.js";
+
+      @Entity()
+      export class Employee extends Person {
+        @Property()
+        salary!: number;
+      }
+
+      @Entity()
+      export class Manager extends Employee {
+        @Property()
+        reports!: number;
+      }
+    `;
+
+    const stiFiles = new Map([
+      ["Employee.ts", employeeCode],
+      ["Person.ts", personCode],
+      ["BaseEntity.ts", baseEntityCode],
+    ]);
+
+    it("should narrow the discriminator of each entity to its value", () => {
+      const result = generateEntityFileTypes(stiFiles, { usePartialTypes: true }).typesCode;
+
+      expect(result).toContain(`export type Person = {
+    id: number;
+    createdAt: Date;
+    updatedAt: Date;
+    type: "person";`);
+      expect(result).toContain(`    type: "employee";
+    name: string;
+    salary: number;
+};`);
+      expect(result).toContain(`    type: "manager";
+    name: string;
+    salary: number;
+    reports: number;
+};`);
+    });
+
+    it("should emit a discriminated union of the hierarchy", () => {
+      const result = generateEntityFileTypes(stiFiles, { usePartialTypes: true }).typesCode;
+
+      expect(result).toContain("export type PersonUnion = Person | Employee | Manager;");
+    });
+
+    it("should read the discriminator values from the entities without a discriminator map", () => {
+      const result = generateEntityFileTypes(
+        new Map([
+          [
+            "Animal.ts",
+            `
+            import { Entity, PrimaryKey } from "@mikro-orm/core";
+
+            @Entity({ discriminatorColumn: "kind", abstract: true })
+            export abstract class Animal {
+              @PrimaryKey()
+              id!: number;
+            }
+
+            @Entity({ discriminatorValue: "kitty" })
+            export class Cat extends Animal {}
+
+            @Entity()
+            export class GoldenRetriever extends Animal {}
+          `,
+          ],
+        ]),
+        { usePartialTypes: false },
+      ).typesCode;
+
+      // The abstract root keeps its declared properties and is not a member of the union
+      expect(result).toContain("export type Animal = {\n    id: number;\n};");
+      expect(result).toContain(`export type Cat = {
+    id: number;
+    kind: "kitty";
+};`);
+      expect(result).toContain(`export type GoldenRetriever = {
+    id: number;
+    kind: "golden_retriever";
+};`);
+      expect(result).toContain("export type AnimalUnion = Cat | GoldenRetriever;");
+    });
+
+    it("should leave the entities missing from the discriminator map out of the union", () => {
+      const result = generateEntityFileTypes(
+        new Map([
+          [
+            "Party.ts",
+            `
+            import { Entity, PrimaryKey, Property } from "@mikro-orm/core";
+
+            @Entity({ discriminatorColumn: "kind", discriminatorMap: { person: "Person", company: "Company" } })
+            export class Party {
+              @PrimaryKey()
+              id!: number;
+
+              @Property()
+              kind!: string;
+            }
+
+            @Entity({ discriminatorValue: "human" })
+            export class Person extends Party {}
+
+            @Entity()
+            export class Company extends Party {}
+          `,
+          ],
+        ]),
+        { usePartialTypes: false },
+      ).typesCode;
+
+      expect(result).toContain("export type Party = {\n    id: number;\n    kind: string;\n};");
+      expect(result).toContain('kind: "person";');
+      expect(result).toContain('kind: "company";');
+      expect(result).not.toContain('"party"');
+      expect(result).not.toContain('"human"');
+      expect(result).toContain("export type PartyUnion = Person | Company;");
+    });
+
+    it("should not emit a union for table per type inheritance", () => {
+      const result = generateEntityFileTypes(
+        new Map([
+          [
+            "Vehicle.ts",
+            `
+            import { Entity, PrimaryKey, Property } from "@mikro-orm/core";
+
+            @Entity({ inheritance: "tpt", discriminatorColumn: "type" })
+            export class Vehicle {
+              @PrimaryKey()
+              id!: number;
+            }
+
+            @Entity()
+            export class Car extends Vehicle {
+              @Property()
+              doors!: number;
+            }
+          `,
+          ],
+        ]),
+        { usePartialTypes: false },
+      ).typesCode;
+
+      expect(result).toContain("export type Car = {\n    id: number;\n    doors: number;\n};");
+      expect(result).not.toContain("VehicleUnion");
+    });
+  });
+
+  describe("generateEntityValidator", () => {
+    const testEntitiesDir = "./test-inheritance-entities";
+
+    beforeAll(async () => {
+      await mkdir(testEntitiesDir, { recursive: true });
+      await writeFile(`${testEntitiesDir}/BaseEntity.ts`, baseEntityCode);
+      await writeFile(
+        `${testEntitiesDir}/Person.ts`,
+        `
+        import { Entity, Enum, Property } from "@mikro-orm/core";
+        import { BaseEntity } from "./BaseEntity.js";
+
+        @Entity({ discriminatorColumn: "type", discriminatorMap: { person: Person, employee: Employee } })
+        export class Person extends BaseEntity {
+          @Enum()
+          type!: string;
+
+          @Property()
+          name!: string;
+        }
+
+        @Entity()
+        export class Employee extends Person {
+          @Property()
+          salary!: number;
+        }
+      `,
+      );
+    });
+
+    afterAll(async () => {
+      if (existsSync(testEntitiesDir)) {
+        await rm(testEntitiesDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should generate a TypeBox union of the hierarchy", async () => {
+      const result = await generateEntityValidator({
+        entitiesDir: testEntitiesDir,
+        write: false,
+      });
+
+      expect(result).toContain('type: Type.Literal("person")');
+      expect(result).toContain('type: Type.Literal("employee")');
+      expect(result).toContain("export const PersonUnion = Type.Union([Person, Employee])");
+    });
+
+    it("should generate a Zod union of the hierarchy", async () => {
+      const result = await generateEntityValidator({
+        entitiesDir: testEntitiesDir,
+        targetValidationLibrary: "zod",
+        write: false,
+      });
+
+      expect(result).toContain('type: z.literal("person")');
+      expect(result).toContain("export const schema_PersonUnion = z.union([");
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "bun:test";
+import { generateEntityValidatorFromFiles } from "../src/generate.js";
+import { postprocessEnums } from "../src/post.js";
+import { generateEntityFileTypes } from "../src/prepare.js";
+
+describe("Naming templates", () => {
+  const files = new Map([
+    [
+      "./src/entities/User.ts",
+      `
+      import { Entity, Enum, PrimaryKey, Property } from "@mikro-orm/core";
+
+      export enum UserRole {
+        Admin = "admin",
+        Member = "member",
+      }
+
+      @Entity()
+      export class User {
+        @PrimaryKey()
+        id!: number;
+
+        @Enum(() => UserRole)
+        role!: UserRole;
+      }
+    `,
+    ],
+    [
+      "./src/entities/Post.ts",
+      `
+      import { Entity, ManyToOne, PrimaryKey } from "@mikro-orm/core";
+      import { User } from "./User";
+
+      @Entity()
+      export class Post {
+        @PrimaryKey()
+        id!: number;
+
+        @ManyToOne(() => User)
+        author!: User;
+      }
+    `,
+    ],
+  ]);
+
+  const naming = { schema: "{name}Schema", type: "{name}Dto", partial: "{name}Ref", enum: "{name}Enum" };
+
+  it("should name the partial types and their references with the partial template", () => {
+    const { typesCode, entityTypeNames } = generateEntityFileTypes(files, {
+      usePartialTypes: true,
+      naming: { partial: "{name}Ref" },
+    });
+
+    expect(typesCode).toContain("export type UserRef = {");
+    expect(typesCode).toContain("author: schema.UserRef;");
+    expect(typesCode).not.toContain("PartialUser");
+    expect(entityTypeNames.get("UserRef")).toBe("User");
+  });
+
+  it("should rename the schemas, the static types and the imported enums consistently", async () => {
+    const code = await generateEntityValidatorFromFiles(files, {
+      outputFile: "./src/entity-validators.ts",
+      naming,
+      write: false,
+    });
+
+    expect(code).toContain('import { UserRole as UserRoleEnum } from "./entities/User.js";');
+    expect(code).toContain("export type UserRoleDto = Static<typeof UserRoleSchema>;");
+    expect(code).toContain("export const UserRoleSchema = Type.Enum(UserRoleEnum);");
+    expect(code).toContain("role: UserRoleSchema,");
+    expect(code).toContain("export type UserRefDto = Static<typeof UserRefSchema>;");
+    expect(code).toContain("export const UserRefSchema = Type.Object({");
+    expect(code).toContain("export type PostDto = Static<typeof PostSchema>;");
+    expect(code).toContain("author: schema.UserRefSchema,");
+    expect(code).not.toContain("EnumUserRole");
+    expect(code).not.toContain("PartialUser");
+  });
+
+  it("should group the renamed declarations by entity in the output directory", async () => {
+    const code = await generateEntityValidatorFromFiles(files, {
+      outputDir: "./src/validators",
+      flat: true,
+      naming,
+      write: false,
+    });
+
+    expect(code).toContain(`// src/validators/Post.ts
+import { Type, Static } from "@sinclair/typebox";
+import { UserRefSchema } from "./User.js";
+`);
+    expect(code).toContain('// src/validators/UserRole.ts\nimport { UserRole as UserRoleEnum } from "../entities/User.js";');
+    expect(code).not.toContain("UserSchema.ts");
+  });
+
+  it("should reject the templates without {name}", async () => {
+    await expect(
+      generateEntityValidatorFromFiles(files, { naming: { partial: "Ref" }, write: false }),
+    ).rejects.toThrow('Invalid naming template "Ref" of naming.partial: the template must contain {name}.');
+    await expect(
+      generateEntityValidatorFromFiles(files, { naming: { enum: "{name}" }, write: false }),
+    ).rejects.toThrow("the imported enums cannot be named like the enum schemas");
+  });
+
+  it("should alias the imported enums with the enum template", () => {
+    const code = `export enum EnumUserRole {
+  ADMIN = "admin",
+}
+
+export type UserRole = Static<typeof UserRole>;
+export const UserRole = Type.Enum(EnumUserRole);`;
+
+    const result = postprocessEnums(
+      code,
+      new Map([["UserRole", "./src/entities/User.ts"]]),
+      "./src/entity-validators.ts",
+      { enum: "{name}Enum" },
+    );
+
+    expect(result).toContain('import { UserRole as UserRoleEnum } from "./entities/User.js";');
+    expect(result).toContain("Type.Enum(UserRoleEnum)");
+    expect(result).not.toContain("EnumUserRole");
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdir, writeFile, rm } from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+import { readOrmConfigEntities } from "../src/orm-config.js";
+import { generateEntityValidator } from "../src/generate.js";
+
+describe("Mikro-ORM config", () => {
+  const testProjectDir = "./test-orm-config-project";
+  const entitiesDir = `${testProjectDir}/src/entities`;
+
+  const entityCode = (name: string) => `
+    import { Entity, PrimaryKey } from "@mikro-orm/core";
+
+    @Entity()
+    export class ${name} {
+      @PrimaryKey()
+      id!: number;
+    }
+  `;
+
+  const writeConfig = (code: string, fileName = "mikro-orm.config.ts") =>
+    writeFile(`${testProjectDir}/${fileName}`, code);
+
+  const relativePaths = (entities: string[]) =>
+    entities.map((entity) => path.relative(testProjectDir, entity)).sort();
+
+  beforeAll(async () => {
+    await mkdir(`${entitiesDir}/blog`, { recursive: true });
+    await writeFile(
+      `${testProjectDir}/tsconfig.json`,
+      JSON.stringify({
+        compilerOptions: {
+          module: "ESNext",
+          moduleResolution: "Bundler",
+          paths: { "@entities/*": ["./src/entities/*"] },
+        },
+      }),
+    );
+    await writeFile(`${entitiesDir}/User.ts`, entityCode("User"));
+    await writeFile(`${entitiesDir}/Unlisted.ts`, entityCode("Unlisted"));
+    await writeFile(`${entitiesDir}/blog/Post.ts`, entityCode("Post"));
+    await writeFile(`${entitiesDir}/blog/Tag.ts`, entityCode("Tag"));
+    await writeFile(
+      `${entitiesDir}/blog/index.ts`,
+      `
+      export * from "./Post.js";
+      export { Tag as BlogTag } from "./Tag.js";
+    `,
+    );
+    await writeFile(
+      `${testProjectDir}/src/shared.ts`,
+      `
+      import { BlogTag } from "./entities/blog/index.js";
+
+      export const sharedEntities = [BlogTag];
+    `,
+    );
+  });
+
+  afterAll(async () => {
+    if (existsSync(testProjectDir)) {
+      await rm(testProjectDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should resolve the imported entity classes to their files", async () => {
+    await writeConfig(`
+      import { defineConfig } from "@mikro-orm/core";
+      import { User } from "@entities/User";
+      import { Post } from "./src/entities/blog";
+      import { sharedEntities } from "./src/shared.js";
+
+      export default defineConfig({
+        dbName: "app",
+        entities: [User, Post, ...sharedEntities],
+      });
+    `);
+
+    expect(relativePaths(await readOrmConfigEntities(`${testProjectDir}/mikro-orm.config.ts`))).toEqual([
+      "src/entities/User.ts",
+      "src/entities/blog/Post.ts",
+      "src/entities/blog/Tag.ts",
+    ]);
+  });
+
+  it("should prefer the entitiesTs paths relative to the baseDir", async () => {
+    await writeConfig(`
+      import { Options } from "@mikro-orm/core";
+
+      const baseConfig = {
+        baseDir: __dirname,
+        entities: ["./dist/entities"],
+      };
+
+      const config: Options = {
+        ...baseConfig,
+        entitiesTs: ["./src/entities/**/*.ts"],
+      };
+
+      export default config;
+    `);
+
+    expect(relativePaths(await readOrmConfigEntities(`${testProjectDir}/mikro-orm.config.ts`))).toEqual([
+      "src/entities/**/*.ts",
+    ]);
+  });
+
+  it("should resolve the namespace imports of the entities", async () => {
+    await writeConfig(
+      `
+      import * as blog from "./src/entities/blog/index.js";
+      import * as entities from "./src/entities/User.js";
+
+      module.exports = {
+        entities: [...Object.values(blog), entities.User],
+      };
+    `,
+      "mikro-orm.config.js",
+    );
+
+    expect(relativePaths(await readOrmConfigEntities(`${testProjectDir}/mikro-orm.config.js`))).toEqual([
+      "src/entities/User.ts",
+      "src/entities/blog/Post.ts",
+      "src/entities/blog/Tag.ts",
+    ]);
+  });
+
+  it("should skip the entities imported from packages", async () => {
+    await writeConfig(`
+      import { defineConfig } from "@mikro-orm/core";
+      import { AuditLog } from "@acme/audit-entities";
+      import * as billing from "@acme/billing-entities";
+      import { User } from "./src/entities/User";
+
+      export default defineConfig({
+        entities: [User, AuditLog, billing.Invoice, ...Object.values(billing)],
+      });
+    `);
+
+    expect(relativePaths(await readOrmConfigEntities(`${testProjectDir}/mikro-orm.config.ts`))).toEqual([
+      "src/entities/User.ts",
+    ]);
+  });
+
+  it("should throw for the relative imports which cannot be resolved", async () => {
+    await writeConfig(`
+      import { Comment } from "./src/entities/Comment";
+
+      export default { entities: [Comment] };
+    `);
+
+    await expect(readOrmConfigEntities(`${testProjectDir}/mikro-orm.config.ts`)).rejects.toThrow(
+      'Cannot resolve the module "./src/entities/Comment" imported in',
+    );
+  });
+
+  it("should throw for entities which cannot be resolved statically", async () => {
+    await writeConfig(`
+      import { User } from "./src/entities/User";
+
+      export default {
+        entities: process.env.TEST ? [] : [User],
+      };
+    `);
+
+    await expect(readOrmConfigEntities(`${testProjectDir}/mikro-orm.config.ts`)).rejects.toThrow(
+      'Cannot statically resolve the entities "process.env.TEST ? [] : [User]"',
+    );
+  });
+
+  it("should generate the schemas of the entities of the config only", async () => {
+    await writeConfig(`
+      import { User } from "./src/entities/User";
+      import { Post } from "./src/entities/blog/Post";
+
+      export default {
+        entities: [User, Post],
+      };
+    `);
+
+    const result = await generateEntityValidator({
+      ormConfig: `${testProjectDir}/mikro-orm.config.ts`,
+      write: false,
+    });
+
+    expect(result).toContain("export const User = Type.Object(");
+    expect(result).toContain("export const Post = Type.Object(");
+    expect(result).not.toContain("Unlisted");
+    expect(result).not.toContain("Tag");
+  });
+});
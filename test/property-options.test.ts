@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, writeFile, rm } from "fs/promises";
+import { existsSync } from "fs";
+import { generateEntityValidator } from "../src/generate.js";
+import { generateEntityTypes } from "../src/prepare.js";
+import { moveNullableConstraints } from "../src/constraints.js";
+
+describe("Property decorator options", () => {
+  describe("generateEntityTypes", () => {
+    it("should make nullable properties nullable unions", () => {
+      const code = `
+        import { Entity, PrimaryKey, Property, ManyToOne } from "@mikro-orm/core";
+
+        @Entity()
+        export class User {
+          @PrimaryKey()
+          id!: number;
+
+          @Property({ nullable: true })
+          nickname!: string;
+
+          @Property({ nullable: true })
+          bio?: string | null;
+
+          @ManyToOne(() => User, { nullable: true })
+          invitedBy?: User;
+        }
+      `;
+
+      const result = generateEntityTypes(code);
+
+      expect(result).toContain("nickname: string | null;");
+      expect(result).toContain("bio?: string | null;");
+      expect(result).not.toContain("null | null");
+      expect(result).toContain("invitedBy?: {\n        id: number;\n    } | null;");
+    });
+
+    it("should add the constraints as JSDoc tags", () => {
+      const code = `
+        import { Entity, PrimaryKey, Property } from "@mikro-orm/core";
+
+        @Entity()
+        export class Product {
+          @PrimaryKey()
+          id!: number;
+
+          @Property({ length: 255, default: "untitled" })
+          name!: string;
+
+          @Property({ unsigned: true, default: -1 })
+          stock!: number;
+        }
+      `;
+
+      const result = generateEntityTypes(code);
+
+      expect(result).toContain(`/**
+     * @maxLength '255'
+     * @default '"untitled"'
+     */
+    name: string;`);
+      expect(result).toContain(`/**
+     * @minimum '0'
+     * @default '-1'
+     */
+    stock: number;`);
+    });
+  });
+
+  describe("generateEntityValidator", () => {
+    const testEntitiesDir = "./test-property-options-entities";
+
+    beforeEach(async () => {
+      await mkdir(testEntitiesDir, { recursive: true });
+      await writeFile(
+        `${testEntitiesDir}/Product.ts`,
+        `
+        import { Entity, PrimaryKey, Property, DecimalType } from "@mikro-orm/core";
+
+        @Entity()
+        export class Product {
+          @PrimaryKey({ type: "bigint" })
+          id!: string;
+
+          @Property({ length: 255, default: "untitled" })
+          name!: string;
+
+          @Property({ nullable: true, columnType: "varchar(100)" })
+          description!: string;
+
+          @Property({ columnType: "decimal(10,2)" })
+          price!: string;
+
+          @Property({ type: DecimalType, precision: 5, scale: 0, unsigned: true })
+          weight!: string;
+
+          @Property({ unsigned: true, default: 0 })
+          stock!: number;
+
+          @Property({ default: "it's" })
+          quote!: string;
+        }
+      `,
+      );
+    });
+
+    afterEach(async () => {
+      if (existsSync(testEntitiesDir)) {
+        await rm(testEntitiesDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should map the options to TypeBox schema options", async () => {
+      const result = await generateEntityValidator({
+        entitiesDir: testEntitiesDir,
+        write: false,
+      });
+
+      expect(result).toContain('id: Type.String({ pattern: "^-?\\\\d+$" })');
+      expect(result).toContain(
+        'name: Type.String({ maxLength: 255, default: "untitled" })',
+      );
+      expect(result).toContain(
+        "description: Type.Union([Type.String({ maxLength: 100 }), Type.Null()])",
+      );
+      expect(result).toContain(
+        'price: Type.String({ pattern: "^-?\\\\d{1,8}(\\\\.\\\\d{1,2})?$" })',
+      );
+      expect(result).toContain('weight: Type.String({ pattern: "^\\\\d{1,5}$" })');
+      expect(result).toContain("stock: Type.Number({ minimum: 0, default: 0 })");
+      expect(result).toContain(`quote: Type.String({ default: "it's" })`);
+
+      // The partial types keep the constraints
+      expect(result).toContain(
+        'name: Type.Optional(Type.String({ maxLength: 255, default: "untitled" }))',
+      );
+    });
+
+    it("should map the options to Zod constraints", async () => {
+      const result = await generateEntityValidator({
+        entitiesDir: testEntitiesDir,
+        targetValidationLibrary: "zod",
+        write: false,
+      });
+
+      expect(result).toContain('name: z.string().max(255).default("untitled")');
+      expect(result).toContain("description: z.union([z.string().max(100), z.null()])");
+      expect(result).toContain("price: z.string().regex(/^-?\\d{1,8}(\\.\\d{1,2})?$/)");
+      expect(result).toContain("stock: z.number().min(0).default(0)");
+    });
+
+    it("should add the patterns to the Valibot strings", async () => {
+      const result = await generateEntityValidator({
+        entitiesDir: testEntitiesDir,
+        targetValidationLibrary: "valibot",
+        write: false,
+      });
+
+      expect(result).toContain("id: v.pipe(v.string(), v.regex(/^-?\\d+$/))");
+      expect(result).toContain("weight: v.pipe(v.string(), v.regex(/^\\d{1,5}$/))");
+      expect(result).toContain("description: v.union([v.pipe(v.string(), v.maxLength(100)), v.null()])");
+    });
+  });
+
+  describe("moveNullableConstraints", () => {
+    it("should move the options which are not JSON onto the non-null member", () => {
+      const result = moveNullableConstraints(
+        "const User = Type.Union([Type.String(), Type.Null()], { pattern: '^\\d+$', default: Role.Admin });",
+      );
+
+      expect(result).toBe(
+        "const User = Type.Union([Type.String({ pattern: '^\\d+$' }), Type.Null()], { default: Role.Admin });",
+      );
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect } from "bun:test";
+import { generateEntityFileTypes } from "../src/prepare.js";
+
+describe("ManyToMany and OneToOne relations", () => {
+  const postCode = `
+    import { Entity, PrimaryKey, Property, ManyToMany, Collection } from "@mikro-orm/core";
+    import { Tag } from "./Tag.js";
+
+    @Entity()
+    export class Post {
+      @PrimaryKey()
+      id!: number;
+
+      @Property()
+      title!: string;
+
+      @ManyToMany(() => Tag, tag => tag.posts, { owner: true })
+      tags = new Collection<Tag>(this);
+    }
+  `;
+
+  const tagCode = `
+    import { Entity, PrimaryKey, Property, ManyToMany, Collection } from "@mikro-orm/core";
+    import { Post } from "./Post.js";
+
+    @Entity()
+    export class Tag {
+      @PrimaryKey()
+      id!: string;
+
+      @Property()
+      name!: string;
+
+      @ManyToMany(() => Post, post => post.tags)
+      posts = new Collection<Post>(this);
+    }
+  `;
+
+  it("should break cycles between ManyToMany owner and inverse sides", () => {
+    const files = new Map([
+      ["Post.ts", postCode],
+      ["Tag.ts", tagCode],
+    ]);
+
+    const result = generateEntityFileTypes(files, { usePartialTypes: true }).typesCode;
+
+    expect(result).toContain("export type Post = {");
+    expect(result).toContain("export type Tag = {");
+
+    // One side of the cycle is inlined as a primary key object, the other uses the partial type
+    const inlinedTags = result.includes("tags: Array<string | {\n        id: string;\n    }>");
+    const inlinedPosts = result.includes("posts: Array<number | {\n        id: number;\n    }>");
+    expect(inlinedTags || inlinedPosts).toBe(true);
+    expect(inlinedTags && inlinedPosts).toBe(false);
+    expect(
+      result.includes("Array<string | schema.PartialTag>") ||
+        result.includes("Array<number | schema.PartialPost>"),
+    ).toBe(true);
+  });
+
+  it("should support the options form and ignore the pivot entity as a target", () => {
+    const postWithPivotCode = `
+      import { Entity, PrimaryKey, ManyToMany, Collection } from "@mikro-orm/core";
+      import { Tag } from "./Tag.js";
+      import { PostTag } from "./PostTag.js";
+
+      @Entity()
+      export class Post {
+        @PrimaryKey()
+        id!: number;
+
+        @ManyToMany({ entity: () => Tag, pivotEntity: () => PostTag, inversedBy: "posts" })
+        tags = new Collection(this);
+      }
+    `;
+
+    const pivotCode = `
+      import { Entity, ManyToOne } from "@mikro-orm/core";
+      import { Post } from "./Post.js";
+      import { Tag } from "./Tag.js";
+
+      @Entity()
+      export class PostTag {
+        @ManyToOne(() => Post, { primary: true })
+        post!: Post;
+
+        @ManyToOne(() => Tag, { primary: true })
+        tag!: Tag;
+      }
+    `;
+
+    const tagOnlyCode = `
+      import { Entity, PrimaryKey, Property } from "@mikro-orm/core";
+
+      @Entity()
+      export class Tag {
+        @PrimaryKey()
+        id!: string;
+
+        @Property()
+        name!: string;
+      }
+    `;
+
+    const files = new Map([
+      ["PostTag.ts", pivotCode],
+      ["Post.ts", postWithPivotCode],
+      ["Tag.ts", tagOnlyCode],
+    ]);
+
+    const result = generateEntityFileTypes(files, { usePartialTypes: true }).typesCode;
+
+    // The collection type is inferred from the decorator target, not the pivot entity
+    expect(result).toContain(
+      "tags: Array<string | schema.PartialTag>",
+    );
+    expect(result).not.toContain("tags: any");
+
+    // The pivot entity depends on both sides and comes after them
+    expect(result.indexOf("export type PostTag = {")).toBeGreaterThan(
+      result.indexOf("export type Post = {"),
+    );
+    expect(result.indexOf("export type PostTag = {")).toBeGreaterThan(
+      result.indexOf("export type Tag = {"),
+    );
+  });
+
+  it("should break cycles between OneToOne owner and inverse sides", () => {
+    const userCode = `
+      import { Entity, PrimaryKey, Property, OneToOne } from "@mikro-orm/core";
+      import { Profile } from "./Profile.js";
+
+      @Entity()
+      export class User {
+        @PrimaryKey()
+        id!: number;
+
+        @Property()
+        email!: string;
+
+        @OneToOne(() => Profile, profile => profile.user, { nullable: true })
+        profile?: Profile | null;
+      }
+    `;
+
+    const profileCode = `
+      import { Entity, PrimaryKey, Property, OneToOne } from "@mikro-orm/core";
+      import { User } from "./User.js";
+
+      @Entity()
+      export class Profile {
+        @PrimaryKey()
+        id!: string;
+
+        @Property()
+        bio!: string;
+
+        @OneToOne({ entity: () => User, inversedBy: "profile" })
+        user!: User;
+      }
+    `;
+
+    const files = new Map([
+      ["User.ts", userCode],
+      ["Profile.ts", profileCode],
+    ]);
+
+    const result = generateEntityFileTypes(files, { usePartialTypes: true }).typesCode;
+
+    expect(result).toContain("export type User = {");
+    expect(result).toContain("export type Profile = {");
+
+    // The single references are replaced, including nullable unions
+    expect(result).not.toContain("profile?: Profile | null");
+    expect(result).not.toContain("user: User;");
+    const inlinedProfile = result.includes("profile?: {\n        id: string;\n    } | null");
+    const inlinedUser = result.includes("user: {\n        id: number;\n    }");
+    expect(inlinedProfile || inlinedUser).toBe(true);
+    expect(inlinedProfile && inlinedUser).toBe(false);
+  });
+
+  it("should inline primary key objects for ManyToMany and OneToOne when partials are disabled", () => {
+    const files = new Map([
+      ["Post.ts", postCode],
+      ["Tag.ts", tagCode],
+    ]);
+
+    const result = generateEntityFileTypes(files, { usePartialTypes: false }).typesCode;
+
+    expect(result).toContain("tags: Array<string | {");
+    expect(result).toContain("posts: Array<number | {");
+    expect(result).not.toContain("schema.Partial");
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from "bun:test";
+import { generateEntityValidatorFromFiles } from "../src/generate.js";
+import { generateEntityFileTypes } from "../src/prepare.js";
+
+describe("Serialization modes", () => {
+  const files = new Map([
+    [
+      "./src/entities/Owner.ts",
+      `
+      import { BigIntType, Entity, PrimaryKey } from "@mikro-orm/core";
+
+      @Entity()
+      export class Owner {
+        @PrimaryKey({ type: BigIntType })
+        id!: bigint;
+      }
+    `,
+    ],
+    [
+      "./src/entities/Document.ts",
+      `
+      import { BigIntType, BlobType, DateType, Entity, JsonType, ManyToOne, PrimaryKey, Property } from "@mikro-orm/core";
+      import { Owner } from "./Owner";
+
+      @Entity()
+      export class Document {
+        @PrimaryKey({ type: "uuid" })
+        id!: string;
+
+        @Property()
+        createdAt!: Date;
+
+        @Property({ nullable: true })
+        deletedAt?: Date;
+
+        @Property({ type: DateType })
+        publishedOn!: string;
+
+        @Property({ type: BigIntType, unsigned: true })
+        size!: bigint;
+
+        @Property({ type: BlobType })
+        content!: Buffer;
+
+        @Property({ type: JsonType })
+        metadata!: { tags: string[]; reviewedAt: Date };
+
+        @ManyToOne(() => Owner)
+        owner!: Owner;
+      }
+    `,
+    ],
+  ]);
+
+  it("should keep the runtime types by default", async () => {
+    const code = await generateEntityValidatorFromFiles(files, { write: false });
+
+    expect(code).toContain("createdAt: Type.Date(),");
+    expect(code).toContain("size: Type.BigInt(),");
+    expect(code).toContain("id: Type.String(),");
+    expect(code).not.toContain("format");
+  });
+
+  it("should map the runtime types to their JSON representation", () => {
+    const { typesCode } = generateEntityFileTypes(files, { usePartialTypes: false, serialization: "json" });
+
+    expect(typesCode).toContain(`export type Owner = {
+    /**
+     * @pattern '"^-?\\\\d+$"'
+     */
+    id: string;
+};`);
+    expect(typesCode).toContain(`    /**
+     * @format '"date-time"'
+     */
+    createdAt: string;`);
+    expect(typesCode).toContain("deletedAt?: string | null;");
+    expect(typesCode).toContain("reviewedAt: string;");
+    expect(typesCode).toContain(`    owner: {
+        id: string;
+    };`);
+    expect(typesCode).not.toContain("Date;");
+    expect(typesCode).not.toContain("bigint");
+    expect(typesCode).not.toContain("Buffer");
+  });
+
+  it("should generate the string schemas with formats, digit patterns and base64 encodings", async () => {
+    const code = await generateEntityValidatorFromFiles(files, { serialization: "json", write: false });
+
+    expect(code).toContain('id: Type.String({ pattern: "^-?\\\\d+$" }),');
+    expect(code).toContain('id: Type.String({ format: "uuid" }),');
+    expect(code).toContain('createdAt: Type.String({ format: "date-time" }),');
+    expect(code).toContain('Type.Union([Type.String({ format: "date-time" }), Type.Null()]),');
+    expect(code).toContain('publishedOn: Type.String({ format: "date" }),');
+    expect(code).toContain('size: Type.String({ pattern: "^\\\\d+$" }),');
+    expect(code).toContain(`content: Type.String({
+      contentEncoding: "base64",
+      pattern: "^[A-Za-z0-9+/]*={0,2}$",
+    }),`);
+    expect(code).not.toContain("Type.Date()");
+    expect(code).not.toContain("Type.BigInt()");
+  });
+
+  it("should place the serialization constraints on the string member of the nullable properties", async () => {
+    const nullableFiles = new Map([
+      [
+        "./src/entities/Backup.ts",
+        `
+        import { BigIntType, BlobType, Entity, PrimaryKey, Property } from "@mikro-orm/core";
+
+        @Entity()
+        export class Backup {
+          @PrimaryKey()
+          id!: number;
+
+          @Property({ nullable: true })
+          restoredAt?: Date;
+
+          @Property({ type: BigIntType, nullable: true })
+          size?: bigint;
+
+          @Property({ type: BlobType, nullable: true })
+          checksum?: Buffer;
+        }
+      `,
+      ],
+    ]);
+
+    const code = await generateEntityValidatorFromFiles(nullableFiles, { serialization: "json", write: false });
+    expect(code).toContain('Type.Union([Type.String({ format: "date-time" }), Type.Null()])');
+    expect(code).toContain('Type.Union([Type.String({ pattern: "^-?\\\\d+$" }), Type.Null()])');
+    expect(code).not.toContain("Type.Null()], {");
+
+    const zodCode = await generateEntityValidatorFromFiles(nullableFiles, {
+      serialization: "json",
+      targetValidationLibrary: "zod",
+      write: false,
+    });
+    expect(zodCode).toContain("z.union([z.string().regex(/^-?\\d+$/), z.null()])");
+    expect(zodCode).toContain(".union([z.string().regex(/^[A-Za-z0-9+/]*={0,2}$/), z.null()])");
+  });
+
+  it("should reject the unknown serialization modes", async () => {
+    await expect(
+      generateEntityValidatorFromFiles(files, { serialization: "xml" as "json", write: false }),
+    ).rejects.toThrow("Unknown serialization mode: xml. The supported modes are runtime, json.");
+  });
+});
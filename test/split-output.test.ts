@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdir, writeFile, readFile, readdir, stat, rm } from "fs/promises";
+import { existsSync } from "fs";
+import { checkEntityValidator } from "../src/check.js";
+import {
+  generateEntityValidator,
+  generateEntityValidatorFiles,
+  readEntities,
+  writeOutputFiles,
+} from "../src/generate.js";
+import { splitValidatorCode } from "../src/split.js";
+
+describe("Split output", () => {
+  const testEntitiesDir = "./test-split-entities";
+  const testOutputDir = "./test-split-output";
+
+  beforeAll(async () => {
+    await mkdir(testEntitiesDir, { recursive: true });
+    await writeFile(
+      `${testEntitiesDir}/User.ts`,
+      `
+      import { Entity, Enum, OneToMany, PrimaryKey, Property, Collection } from "@mikro-orm/core";
+      import { Post } from "./Post";
+
+      export enum UserRole {
+        Admin = "admin",
+        Member = "member",
+      }
+
+      @Entity()
+      export class User {
+        @PrimaryKey()
+        id!: number;
+
+        @Enum(() => UserRole)
+        role!: UserRole;
+
+        @OneToMany(() => Post, (post) => post.author)
+        posts = new Collection<Post>(this);
+      }
+    `,
+    );
+    await writeFile(
+      `${testEntitiesDir}/Post.ts`,
+      `
+      import { Entity, ManyToOne, PrimaryKey, Property } from "@mikro-orm/core";
+      import { User } from "./User";
+
+      @Entity()
+      export class Post {
+        @PrimaryKey()
+        id!: number;
+
+        @Property()
+        title!: string;
+
+        @ManyToOne(() => User)
+        author!: User;
+      }
+    `,
+    );
+  });
+
+  afterAll(async () => {
+    for (const dir of [testEntitiesDir, testOutputDir]) {
+      if (existsSync(dir)) {
+        await rm(dir, { recursive: true, force: true });
+      }
+    }
+  });
+
+  it("should write one module per entity with the imports of the referenced schemas and a barrel", async () => {
+    await generateEntityValidator({
+      entitiesDir: testEntitiesDir,
+      outputDir: testOutputDir,
+      variants: ["create"],
+      write: true,
+    });
+
+    expect((await readdir(testOutputDir)).sort()).toEqual([
+      "Post.ts",
+      "User.ts",
+      "UserRole.ts",
+      "index.ts",
+    ]);
+
+    const postModule = await readFile(`${testOutputDir}/Post.ts`, "utf-8");
+    expect(postModule).toStartWith(
+      'import { Type, Static } from "@sinclair/typebox";\nimport { PartialUser } from "./User.js";\n',
+    );
+    expect(postModule).toContain("export const Post = Type.Object({");
+    expect(postModule).toContain("export const PartialPost = Type.Object({");
+    expect(postModule).toContain("export const CreatePost = Type.Object({");
+    expect(postModule).toContain("author: PartialUser,");
+    expect(postModule).not.toContain("schema.");
+
+    expect(await readFile(`${testOutputDir}/UserRole.ts`, "utf-8")).toStartWith(
+      'import { UserRole as EnumUserRole } from "../test-split-entities/User.js";\n',
+    );
+    expect(await readFile(`${testOutputDir}/index.ts`, "utf-8")).toBe(`export * from "./Post.js";
+export * from "./UserRole.js";
+export * from "./User.js";
+`);
+  });
+
+  it("should skip the modules whose code did not change", async () => {
+    const opts = { entitiesDir: testEntitiesDir, outputDir: testOutputDir, variants: ["create" as const] };
+    const modifiedTime = (await stat(`${testOutputDir}/index.ts`)).mtimeMs;
+
+    const writtenFiles = await writeOutputFiles(await generateEntityValidatorFiles(await readEntities(opts), opts));
+
+    expect(writtenFiles).toEqual([]);
+    expect((await stat(`${testOutputDir}/index.ts`)).mtimeMs).toBe(modifiedTime);
+  });
+
+  it("should check the modules of the output directory", async () => {
+    const upToDate = await checkEntityValidator({
+      entitiesDir: testEntitiesDir,
+      outputDir: testOutputDir,
+      variants: ["create"],
+    });
+    expect(upToDate).toEqual({ outputFile: testOutputDir, upToDate: true, diff: "" });
+
+    const outOfDate = await checkEntityValidator({ entitiesDir: testEntitiesDir, outputDir: testOutputDir });
+    expect(outOfDate.upToDate).toBe(false);
+    expect(outOfDate.diff).toContain("--- a/test-split-output/Post.ts");
+    expect(outOfDate.diff).toContain("-export const CreatePost = Type.Object({");
+    expect(outOfDate.diff).not.toContain("a/test-split-output/index.ts");
+  });
+
+  it("should check and remove the modules of the deleted entities, but not the other files", async () => {
+    const opts = { entitiesDir: testEntitiesDir, outputDir: testOutputDir, variants: ["create" as const] };
+    await writeFile(
+      `${testEntitiesDir}/Tag.ts`,
+      `
+      import { Entity, PrimaryKey } from "@mikro-orm/core";
+
+      @Entity()
+      export class Tag {
+        @PrimaryKey()
+        name!: string;
+      }
+    `,
+    );
+    await generateEntityValidator({ ...opts, write: true });
+    await writeFile(`${testOutputDir}/custom.ts`, "export const custom = true;\n");
+    expect(existsSync(`${testOutputDir}/Tag.ts`)).toBe(true);
+
+    await rm(`${testEntitiesDir}/Tag.ts`);
+    const outOfDate = await checkEntityValidator(opts);
+    expect(outOfDate.upToDate).toBe(false);
+    expect(outOfDate.diff).toContain("--- a/test-split-output/Tag.ts\n+++ /dev/null\n");
+    expect(outOfDate.diff).not.toContain("custom.ts");
+
+    await generateEntityValidator({ ...opts, write: true });
+    expect((await readdir(testOutputDir)).sort()).toEqual(["Post.ts", "User.ts", "UserRole.ts", "custom.ts", "index.ts"]);
+    expect(await checkEntityValidator(opts)).toEqual({ outputFile: testOutputDir, upToDate: true, diff: "" });
+  });
+
+  it("should keep the declarations of the model based libraries with their entity", () => {
+    const modules = splitValidatorCode(
+      `import { z } from "zod";
+export type schema_User = z.infer<typeof schema_User>;
+export const schema_User = z.object({ id: z.number() });
+export type schema_PartialUser = z.infer<typeof schema_PartialUser>;
+export const schema_PartialUser = z.object({ id: z.number() });`,
+      new Map([
+        ["User", "User"],
+        ["PartialUser", "User"],
+      ]),
+    );
+
+    expect([...modules.keys()]).toEqual(["User.ts", "index.ts"]);
+    expect(modules.get("User.ts")).toStartWith('import { z } from "zod";\n\nexport type schema_User');
+    expect(modules.get("User.ts")).toContain("export const schema_PartialUser");
+  });
+});
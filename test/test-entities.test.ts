@@ -55,8 +55,8 @@ for (const folder of ["./test/test-entities/", "./test/test-entities-2/"]) {
             expect(result).toContain('}');
 
             // Collections should also be inlined
-            expect(result).toContain('posts: Collection<{');
-            expect(result).toContain('comments: Collection<{');
+            expect(result).toContain('posts: Array<string | {');
+            expect(result).toContain('comments: Array<number | {');
         });
 
         it("should work with CLI command for test-entities", async () => {
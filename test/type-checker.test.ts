@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdir, writeFile, rm } from "fs/promises";
+import { existsSync } from "fs";
+import { generateEntityValidator } from "../src/generate.js";
+import { generateEntityFileTypes } from "../src/prepare.js";
+
+describe("Type checker", () => {
+  const testDir = "./test-type-checker";
+  const testEntitiesDir = `${testDir}/entities`;
+
+  beforeAll(async () => {
+    await mkdir(`${testDir}/types`, { recursive: true });
+    await mkdir(testEntitiesDir, { recursive: true });
+
+    await writeFile(
+      `${testDir}/types/index.ts`,
+      `
+      export interface UserSettings {
+        theme: "light" | "dark";
+        notifications?: boolean;
+      }
+
+      export type Email = string;
+    `,
+    );
+
+    await writeFile(
+      `${testEntitiesDir}/BaseEntity.ts`,
+      `
+      import { PrimaryKey, Property } from "@mikro-orm/core";
+
+      export abstract class BaseEntity {
+        @PrimaryKey()
+        id!: number;
+
+        @Property()
+        createdAt = new Date();
+      }
+    `,
+    );
+
+    await writeFile(
+      `${testEntitiesDir}/User.ts`,
+      `
+      import { Entity, Property, Enum } from "@mikro-orm/core";
+      import type { UserSettings, Email } from "../types/index.js";
+      import { BaseEntity } from "./BaseEntity.js";
+
+      export enum Status {
+        Draft = "draft",
+        Published = "published",
+      }
+
+      @Entity()
+      export class User extends BaseEntity {
+        @Property()
+        isActive = false;
+
+        @Property()
+        tags: string[] = [];
+
+        @Enum(() => Status)
+        status = Status.Draft;
+
+        @Property({ type: "json" })
+        settings!: UserSettings;
+
+        @Property()
+        email!: Email;
+      }
+    `,
+    );
+  });
+
+  afterAll(async () => {
+    if (existsSync(testDir)) {
+      await rm(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should resolve the types of initializers, imported types and inherited members", async () => {
+    const files = new Map([
+      [`${testEntitiesDir}/BaseEntity.ts`, await Bun.file(`${testEntitiesDir}/BaseEntity.ts`).text()],
+      [`${testEntitiesDir}/User.ts`, await Bun.file(`${testEntitiesDir}/User.ts`).text()],
+    ]);
+
+    const result = generateEntityFileTypes(files, {
+      usePartialTypes: true,
+      useTypeChecker: true,
+    }).typesCode;
+
+    // Initializers
+    expect(result).toContain("createdAt: Date;");
+    expect(result).toContain("isActive: boolean;");
+    expect(result).toContain("tags: string[];");
+    expect(result).toContain("status: Status;");
+
+    // Imported interfaces and type aliases are inlined
+    expect(result).toContain(`settings: {
+        theme: "light" | "dark";
+        notifications?: boolean;
+    };`);
+    expect(result).toContain("email: string;");
+    expect(result).not.toContain("UserSettings");
+    expect(result).not.toContain("Email;");
+
+    // Inherited members
+    expect(result).toContain("id: number;");
+  });
+
+  it("should leave the initializers unresolved without the type checker", async () => {
+    const files = new Map([
+      [`${testEntitiesDir}/User.ts`, await Bun.file(`${testEntitiesDir}/User.ts`).text()],
+    ]);
+
+    const result = generateEntityFileTypes(files, { usePartialTypes: true }).typesCode;
+
+    expect(result).toContain("isActive: any;");
+    expect(result).toContain("settings: UserSettings;");
+  });
+
+  it("should load the tsconfig of the entities directory with the typeChecker option", async () => {
+    const result = await generateEntityValidator({
+      entitiesDir: testEntitiesDir,
+      outputFile: `${testDir}/entity-validators.ts`,
+      write: false,
+      typeChecker: true,
+    });
+
+    expect(result).toContain("createdAt: Type.Date()");
+    expect(result).toContain("isActive: Type.Boolean()");
+    expect(result).toContain("status: Status");
+  });
+});
@@ -0,0 +1,258 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdir, writeFile, rm } from "fs/promises";
+import { existsSync } from "fs";
+import { generateEntityValidator } from "../src/generate.js";
+import { generateEntityTypes } from "../src/prepare.js";
+
+describe("DTO variants", () => {
+  const userCode = `
+    import { Entity, PrimaryKey, Property } from "@mikro-orm/core";
+
+    @Entity()
+    export class User {
+      @PrimaryKey()
+      id!: number;
+
+      @Property()
+      email!: string;
+
+      @Property({ hidden: true })
+      password!: string;
+
+      @Property({ default: "member" })
+      role!: string;
+
+      @Property({ onCreate: () => new Date() })
+      createdAt!: Date;
+
+      @Property({ persist: false })
+      displayName?: string;
+    }
+  `;
+
+  it("should drop the autoincrement primary key and the generated properties from the create variant", () => {
+    const result = generateEntityTypes(userCode, undefined, { variants: ["create"] });
+
+    expect(result).toContain(`export type CreateUser = {
+    email: string;
+    password: string;
+};`);
+  });
+
+  it("should make the initialized properties optional in the create variant", () => {
+    const result = generateEntityTypes(
+      `
+      import { Collection, Entity, OneToMany, PrimaryKey, Property } from "@mikro-orm/core";
+      import { Post } from "./Post";
+
+      @Entity()
+      export class Author {
+        @PrimaryKey()
+        id!: number;
+
+        @Property()
+        name!: string;
+
+        @Property()
+        createdAt: Date = new Date();
+
+        @OneToMany(() => Post, (post) => post.author)
+        posts = new Collection<Post>(this);
+      }
+    `,
+      undefined,
+      { variants: ["create"] },
+    );
+
+    expect(result).toContain(`export type CreateAuthor = {
+    name: string;
+    createdAt?: Date;
+    posts?: Array<Post>;
+};`);
+  });
+
+  it("should make all the properties optional except the primary key in the update variant", () => {
+    const result = generateEntityTypes(userCode, undefined, { variants: ["update"] });
+
+    expect(result).toContain(`export type UpdateUser = {
+    id: number;
+    email?: string;
+    password?: string;
+    /**
+     * @default '"member"'
+     */
+    role?: string;
+    createdAt?: Date;
+};`);
+  });
+
+  it("should drop the hidden properties from the response variant", () => {
+    const result = generateEntityTypes(userCode, undefined, { variants: ["response"] });
+
+    expect(result).toContain("export type UserResponse = {\n    id: number;\n    email: string;\n    /**");
+    expect(result).not.toMatch(/UserResponse = {[^}]*password/);
+  });
+
+  it("should keep primary keys which are not generated in the create variant", () => {
+    const result = generateEntityTypes(
+      `
+      import { Entity, PrimaryKey, Property } from "@mikro-orm/core";
+
+      @Entity()
+      export class Country {
+        @PrimaryKey()
+        code!: string;
+
+        @Property()
+        name!: string;
+      }
+
+      @Entity()
+      export class Ticket {
+        @PrimaryKey({ autoincrement: false })
+        number!: number;
+      }
+    `,
+      undefined,
+      { variants: ["create"] },
+    );
+
+    expect(result).toContain("export type CreateCountry = {\n    code: string;\n    name: string;\n};");
+    expect(result).toContain("export type CreateTicket = {\n    number: number;\n};");
+  });
+
+  describe("Property semantics", () => {
+    const articleCode = `
+      import { Entity, PrimaryKey, Property, Formula } from "@mikro-orm/core";
+
+      @Entity()
+      export class Article {
+        @PrimaryKey()
+        id!: number;
+
+        @Property()
+        title!: string;
+
+        @Property({ type: "text", lazy: true })
+        body!: string;
+
+        @Formula((alias) => \`(select count(*) from comment c where c.article_id = \${alias}.id)\`)
+        commentCount!: number;
+
+        @Property({ persist: false })
+        slug!: string;
+
+        @Property({ hidden: true })
+        authorToken!: string;
+      }
+    `;
+
+    it("should make lazy and computed properties optional in the entity type", () => {
+      const result = generateEntityTypes(articleCode);
+
+      expect(result).toContain(`export type Article = {
+    id: number;
+    title: string;
+    body?: string;
+    commentCount?: number;
+    slug?: string;
+    authorToken: string;
+};`);
+    });
+
+    it("should drop the computed properties from the input variants", () => {
+      const result = generateEntityTypes(articleCode, undefined, { variants: ["create", "update", "response"] });
+
+      expect(result).toContain(`export type CreateArticle = {
+    title: string;
+    body?: string;
+    authorToken: string;
+};`);
+      expect(result).toContain(`export type UpdateArticle = {
+    id: number;
+    title?: string;
+    body?: string;
+    authorToken?: string;
+};`);
+      expect(result).toContain(`export type ArticleResponse = {
+    id: number;
+    title: string;
+    body?: string;
+    commentCount?: number;
+    slug?: string;
+};`);
+    });
+
+    it("should keep the included properties in all the variants", () => {
+      const result = generateEntityTypes(articleCode, undefined, {
+        variants: ["create", "response"],
+        include: ["Article.slug", "*.authorToken"],
+      });
+
+      expect(result).toContain(`export type CreateArticle = {
+    title: string;
+    body?: string;
+    slug?: string;
+    authorToken: string;
+};`);
+      expect(result).toMatch(/ArticleResponse = {[^}]*authorToken: string;\n};/);
+    });
+
+    it("should remove the excluded properties from the entity type and its variants", () => {
+      const result = generateEntityTypes(articleCode, undefined, {
+        usePartialTypes: true,
+        variants: ["create"],
+        exclude: ["Article.authorToken", "*.slug"],
+      });
+
+      expect(result).not.toContain("authorToken");
+      expect(result).not.toContain("slug");
+    });
+  });
+
+  it("should not generate variants by default", () => {
+    const result = generateEntityTypes(userCode);
+
+    expect(result).not.toContain("CreateUser");
+    expect(result).not.toContain("UpdateUser");
+    expect(result).not.toContain("UserResponse");
+  });
+
+  describe("generateEntityValidator", () => {
+    const testEntitiesDir = "./test-variants-entities";
+
+    beforeAll(async () => {
+      await mkdir(testEntitiesDir, { recursive: true });
+      await writeFile(`${testEntitiesDir}/User.ts`, userCode);
+    });
+
+    afterAll(async () => {
+      if (existsSync(testEntitiesDir)) {
+        await rm(testEntitiesDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should generate validators of the variants", async () => {
+      const result = await generateEntityValidator({
+        entitiesDir: testEntitiesDir,
+        targetValidationLibrary: "zod",
+        variants: ["create", "update", "response"],
+        write: false,
+      });
+
+      expect(result).toContain("export const schema_CreateUser = z.object({");
+      expect(result).toContain("export const schema_UpdateUser = z.object({");
+      expect(result).toContain("export const schema_UserResponse = z.object({");
+    });
+
+    it("should reject unknown variants", async () => {
+      await expect(
+        generateEntityValidator({
+          entitiesDir: testEntitiesDir,
+          variants: ["delete" as "create"],
+          write: false,
+        }),
+      ).rejects.toThrow("Unknown variants: delete");
+    });
+  });
+});
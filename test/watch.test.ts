@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, writeFile, rm } from "fs/promises";
+import { existsSync } from "fs";
+import { watchEntityValidator, type EntityValidatorWatcher } from "../src/watch.js";
+
+/**
+ * Wait until the condition is true, polling every 20ms
+ */
+async function waitFor(condition: () => boolean, timeout = 5000) {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) {
+      throw new Error("Timed out waiting for the condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+describe("Watch mode", () => {
+  const testOutputFile = "./test-watch-output.ts";
+  let watcher: EntityValidatorWatcher | undefined;
+
+  // Each test watches its own directory, as removed directories might still be watched until the process exits
+  let testIndex = 0;
+  let testEntitiesDir = "";
+
+  const userCode = (property: string) => `
+    import { Entity, PrimaryKey, Property } from "@mikro-orm/core";
+
+    @Entity()
+    export class User {
+      @PrimaryKey()
+      id!: number;
+
+      @Property()
+      ${property}!: string;
+    }
+  `;
+
+  beforeEach(async () => {
+    testEntitiesDir = `./test-watch-entities-${testIndex++}`;
+    await mkdir(testEntitiesDir, { recursive: true });
+    await writeFile(`${testEntitiesDir}/User.ts`, userCode("name"));
+  });
+
+  afterEach(async () => {
+    watcher?.close();
+    watcher = undefined;
+    if (existsSync(testEntitiesDir)) {
+      await rm(testEntitiesDir, { recursive: true, force: true });
+    }
+    if (existsSync(testOutputFile)) {
+      await rm(testOutputFile, { force: true });
+    }
+  });
+
+  it("should regenerate the output file when the entities change", async () => {
+    const generations: boolean[] = [];
+    watcher = await watchEntityValidator({
+      entitiesDir: testEntitiesDir,
+      outputFile: testOutputFile,
+      debounce: 20,
+      onGenerate: ({ written }) => generations.push(written),
+    });
+
+    expect(generations).toEqual([true]);
+    expect(await Bun.file(testOutputFile).text()).toContain("name: Type.String()");
+
+    await writeFile(`${testEntitiesDir}/User.ts`, userCode("email"));
+    await waitFor(() => generations.length === 2);
+
+    expect(generations).toEqual([true, true]);
+    expect(await Bun.file(testOutputFile).text()).toContain("email: Type.String()");
+  });
+
+  it("should debounce bursts of changes and skip unchanged outputs", async () => {
+    const generations: boolean[] = [];
+    watcher = await watchEntityValidator({
+      entitiesDir: testEntitiesDir,
+      outputFile: testOutputFile,
+      debounce: 100,
+      onGenerate: ({ written }) => generations.push(written),
+    });
+
+    // Only formatting changes, which generate the same code
+    await writeFile(`${testEntitiesDir}/User.ts`, userCode("email"));
+    await writeFile(`${testEntitiesDir}/User.ts`, userCode("name"));
+    await writeFile(`${testEntitiesDir}/User.ts`, `${userCode("name")}\n// a comment\n`);
+    await waitFor(() => generations.length === 2);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    expect(generations).toEqual([true, false]);
+  });
+
+  it("should report parse errors without stopping", async () => {
+    const errors: Error[] = [];
+    const generations: boolean[] = [];
+    watcher = await watchEntityValidator({
+      entitiesDir: testEntitiesDir,
+      outputFile: testOutputFile,
+      debounce: 20,
+      onGenerate: ({ written }) => generations.push(written),
+      onError: (error) => errors.push(error),
+    });
+    const output = await Bun.file(testOutputFile).text();
+
+    await writeFile(`${testEntitiesDir}/User.ts`, "export class User {\n  name!: string;\n");
+    await waitFor(() => errors.length === 1);
+
+    expect(errors[0]!.message).toContain("User.ts:3:1: '}' expected.");
+    expect(await Bun.file(testOutputFile).text()).toBe(output);
+
+    await writeFile(`${testEntitiesDir}/User.ts`, userCode("email"));
+    await waitFor(() => generations.length === 2);
+
+    expect(await Bun.file(testOutputFile).text()).toContain("email: Type.String()");
+  });
+
+  it("should regenerate the output file when a nested entity file changes", async () => {
+    await mkdir(`${testEntitiesDir}/posts`, { recursive: true });
+    const generations: boolean[] = [];
+    watcher = await watchEntityValidator({
+      entitiesDir: testEntitiesDir,
+      outputFile: testOutputFile,
+      debounce: 20,
+      onGenerate: ({ written }) => generations.push(written),
+    });
+
+    await writeFile(
+      `${testEntitiesDir}/posts/Post.ts`,
+      `
+      import { Entity, PrimaryKey } from "@mikro-orm/core";
+
+      @Entity()
+      export class Post {
+        @PrimaryKey()
+        id!: number;
+      }
+    `,
+    );
+    await waitFor(() => generations.length === 2);
+
+    expect(await Bun.file(testOutputFile).text()).toContain("export const Post = Type.Object(");
+  });
+});
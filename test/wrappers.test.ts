@@ -0,0 +1,92 @@
+import { describe, it, expect } from "bun:test";
+import { generateEntityTypes } from "../src/prepare.js";
+
+describe("Wrapper types", () => {
+  const entitiesCode = `
+    import { Entity, Hidden, ManyToOne, OneToOne, Opt, PrimaryKey, Property, Ref } from "@mikro-orm/core";
+
+    @Entity()
+    export class User {
+      @PrimaryKey()
+      id!: number;
+
+      @Property({ hidden: true })
+      password!: Hidden<string>;
+
+      @Property()
+      token!: string & Hidden;
+    }
+
+    @Entity()
+    export class Post {
+      @PrimaryKey()
+      id!: number;
+
+      @ManyToOne(() => User, { ref: true })
+      author!: Ref<User>;
+
+      @OneToOne(() => User, { ref: true, nullable: true })
+      reviewer?: IdentifiedReference<User, "id"> | null;
+
+      @Property()
+      createdAt: Opt<Date> = new Date();
+
+      @Property({ default: "draft" })
+      status!: string & Opt;
+    }
+  `;
+
+  it("should unwrap the references and the markers in the entity types", () => {
+    const result = generateEntityTypes(entitiesCode, undefined, { usePartialTypes: false });
+
+    expect(result).toContain(`export type User = {
+    id: number;
+    password: string;
+    token: string;
+};`);
+    expect(result).toContain(`export type Post = {
+    id: number;
+    author: {
+        id: number;
+    };
+    reviewer?: {
+        id: number;
+    } | null;
+    createdAt: Date;
+    /**
+     * @default '"draft"'
+     */
+    status: string;
+};`);
+  });
+
+  it("should make the Opt properties optional in the create variant", () => {
+    const result = generateEntityTypes(entitiesCode, undefined, { usePartialTypes: false, variants: ["create"] });
+
+    expect(result).toContain(`export type CreatePost = {
+    author: {
+        id: number;
+    };
+    reviewer?: {
+        id: number;
+    } | null;
+    createdAt?: Date;
+    /**
+     * @default '"draft"'
+     */
+    status?: string;
+};`);
+  });
+
+  it("should drop the Hidden properties from the response variant", () => {
+    const result = generateEntityTypes(entitiesCode, undefined, { usePartialTypes: false, variants: ["response"] });
+
+    expect(result).toContain("export type UserResponse = {\n    id: number;\n};");
+  });
+
+  it("should resolve the relation target of a reference", () => {
+    const result = generateEntityTypes(entitiesCode, undefined, { usePartialTypes: true });
+
+    expect(result).toContain("author: schema.PartialUser;");
+  });
+});